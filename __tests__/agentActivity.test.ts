@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import type { PendingPost } from '../src/approval';
+import type { ClientBase } from '../src/base';
+import { TweetPublisher } from '../src/publisher';
+import { computeAgentActivity, formatAgentActivitySection } from '../src/report/agentActivity';
+import { createTweet } from './helpers/tweets';
+
+const agentId = 'agent-id' as UUID;
+const window = {
+    since: new Date('2026-01-14T09:00:00Z'),
+    until: new Date('2026-01-15T09:00:00Z')
+};
+const inWindow = new Date('2026-01-14T12:00:00Z').getTime();
+
+const createMemory = (content: Memory['content'], extra: Partial<Memory> = {}): Memory => ({
+    id: `memory-${Math.random()}` as UUID,
+    userId: 'user-id' as UUID,
+    agentId,
+    roomId: 'room-id' as UUID,
+    createdAt: inWindow,
+    content,
+    ...extra
+});
+
+const ownTweet = (id: string, inReplyTo?: string, createdAt = inWindow) =>
+    createMemory(
+        {
+            text: `tweet ${id}`,
+            url: `https://twitter.com/agent/status/${id}`,
+            source: 'twitter',
+            inReplyTo: inReplyTo as UUID
+        },
+        { userId: agentId, createdAt }
+    );
+
+const cleanup = (resolution: string) =>
+    createMemory({
+        text: 'Verification task processed',
+        metadata: { taskType: 'tweetVerificationCleanup', resolution }
+    });
+
+describe('Agent Activity', () => {
+    it('should count posts, replies, timeline actions and approvals in the window', () => {
+        const activity = computeAgentActivity({
+            agentId,
+            window,
+            memories: [
+                ownTweet('1'),
+                ownTweet('2'),
+                ownTweet('3', 'reply-to'),
+                ownTweet('4', undefined, new Date('2026-01-13T12:00:00Z').getTime()),
+                createMemory({ text: 'timeline tweet', source: 'twitter', action: 'like,retweet' }),
+                createMemory({ text: 'timeline tweet', source: 'twitter', action: 'like,quote' }),
+                createMemory({ text: 'dry run', source: 'twitter', action: 'like (dry run)' }),
+                createMemory({ text: 'someone else', url: 'https://twitter.com/a/status/9', source: 'twitter' }),
+                cleanup('rejected'),
+                cleanup('published'),
+                cleanup('expired')
+            ],
+            pendingPosts: [{ taskId: 'task-1' } as PendingPost],
+            ownTweets: [createTweet('1', 'agent', { likes: 3, retweets: 1 }), createTweet('2', 'agent', { likes: 40, retweets: 1 })]
+        });
+
+        expect(activity).toMatchObject({
+            posts: 2,
+            replies: 1,
+            likes: 2,
+            retweets: 1,
+            quotes: 1,
+            approvals: { pending: 1, rejected: 1, expired: 1 }
+        });
+        expect(activity.topTweet?.id).toBe('2');
+    });
+
+    it('should format the section', () => {
+        const activity = computeAgentActivity({
+            agentId,
+            window,
+            memories: [ownTweet('1')],
+            pendingPosts: [],
+            ownTweets: [createTweet('1', 'agent', { likes: 12, retweets: 1 })]
+        });
+
+        expect(formatAgentActivitySection(activity)).toBe(
+            [
+                '🤖 Agent Activity',
+                '• 1 tweet, 0 replies',
+                '• 0 likes, 0 RTs, 0 quotes',
+                '• Top post: 12 likes, 1 RTs https://twitter.com/agent/status/1'
+            ].join('\n')
+        );
+    });
+
+    it('should count a published quote as a quote, not a post', async () => {
+        const client = {
+            profile: { id: 'agent-user', username: 'agent' },
+            twitterConfig: { MAX_TWEET_LENGTH: 280 },
+            twitterClient: {
+                sendQuoteTweet: async (text: string) => ({
+                    json: async () => ({
+                        data: {
+                            create_tweet: {
+                                tweet_results: {
+                                    result: {
+                                        rest_id: '7',
+                                        legacy: { full_text: text, created_at: 'Wed Jan 14 12:00:00 +0000 2026' }
+                                    }
+                                }
+                            }
+                        }
+                    })
+                })
+            },
+            requestQueue: { add: (request: () => Promise<unknown>) => request() },
+            cacheTweet: vi.fn()
+        } as unknown as ClientBase;
+        const runtime = {
+            agentId,
+            cacheManager: { set: vi.fn() },
+            ensureRoomExists: vi.fn(),
+            ensureParticipantInRoom: vi.fn(),
+            messageManager: { createMemory: vi.fn() }
+        } as unknown as IAgentRuntime;
+
+        const { memories } = await new TweetPublisher(client, runtime).publish('Huge if true', {
+            roomId: 'room-id' as UUID,
+            quote: '42'
+        });
+        const activity = computeAgentActivity({
+            agentId,
+            window,
+            memories: [
+                ...memories,
+                createMemory({ text: 'quoted tweet', source: 'twitter', action: 'quote' })
+            ],
+            pendingPosts: [],
+            ownTweets: []
+        });
+
+        expect(activity).toMatchObject({ posts: 0, replies: 0, quotes: 1 });
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateText, type IAgentRuntime, type State } from '@elizaos/core';
+import { generateDailyAnalysis, parseDailyAnalysis } from '../src/report/analysis';
+
+vi.mock('@elizaos/core', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@elizaos/core')>()),
+    composeContext: vi.fn(({ template }) => template),
+    generateText: vi.fn()
+}));
+
+const validAnalysis = {
+    themes: [{ name: 'AI agents', quantity: 12, emotion: 'Positive' }],
+    trends: ['More projects ship on-chain agents'],
+    top_mentions: ['@dfinity'],
+    notable_tweets: ['1880000000000000000', 42]
+};
+
+describe('Daily Analysis', () => {
+    beforeEach(() => {
+        vi.mocked(generateText).mockReset();
+    });
+
+    it('should parse and normalize a fenced JSON response', () => {
+        const result = parseDailyAnalysis('Here you go:\n```json\n' + JSON.stringify(validAnalysis) + '\n```');
+
+        expect(result.error).toBeNull();
+        expect(result.data?.themes[0]).toEqual({ name: 'AI agents', quantity: 12, emotion: 'positive' });
+        expect(result.data?.notable_tweets).toEqual(['1880000000000000000', '42']);
+    });
+
+    it('should report schema violations by path', () => {
+        const result = parseDailyAnalysis(JSON.stringify({
+            ...validAnalysis,
+            themes: [{ name: 'AI agents', quantity: 'many', emotion: 'excited' }]
+        }));
+
+        expect(result.data).toBeNull();
+        expect(result.error).toContain('themes.0.quantity');
+        expect(result.error).toContain('themes.0.emotion');
+    });
+
+    it('should reject responses without a JSON object', () => {
+        expect(parseDailyAnalysis('No analysis today').error).toBe('Response does not contain a JSON object');
+        expect(parseDailyAnalysis('{ themes: [ }').error).toContain('not valid JSON');
+    });
+
+    it('should re-prompt with the validation errors until the response is valid', async () => {
+        vi.mocked(generateText)
+            .mockResolvedValueOnce('{"themes": "none"}')
+            .mockResolvedValueOnce(JSON.stringify(validAnalysis));
+
+        const { analysis, prompts } = await generateDailyAnalysis({} as IAgentRuntime, {} as State);
+
+        expect(analysis.trends).toEqual(validAnalysis.trends);
+        expect(prompts).toHaveLength(2);
+        expect(generateText).toHaveBeenCalledTimes(2);
+        expect(vi.mocked(generateText).mock.calls[1][0].context).toContain('# VALIDATION ERRORS');
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+        vi.mocked(generateText).mockResolvedValue('not json');
+
+        await expect(generateDailyAnalysis({} as IAgentRuntime, {} as State, 2)).rejects.toThrow('after 2 attempts');
+        expect(generateText).toHaveBeenCalledTimes(2);
+    });
+});
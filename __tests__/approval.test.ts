@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PostApprovalQueue, type PendingPost } from '../src/approval';
+import type { ClientBase } from '../src/base';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+
+const createRuntime = (settings: Record<string, string>, verification: Record<string, unknown>) => {
+    const cache = new Map<string, unknown>();
+    return {
+        cache,
+        runtime: {
+            agentId: 'agent-id',
+            actions: [{ name: 'VERIFY_GENERATION_CONTENT' }],
+            getSetting: (key: string) => settings[key] ?? null,
+            cacheManager: {
+                get: async (key: string) => cache.get(key),
+                set: async (key: string, value: unknown) => { cache.set(key, value); },
+                delete: async (key: string) => { cache.delete(key); }
+            },
+            ensureRoomExists: vi.fn(),
+            ensureParticipantInRoom: vi.fn(),
+            messageManager: { createMemory: vi.fn() },
+            processActions: vi.fn(async (memory, _responses, _state, callback) => {
+                await callback(
+                    memory.content.action === 'VERIFY_GENERATION_CONTENT'
+                        ? { text: 'Task ID: 0b6a7c1e-3f5d-4c2a-9e8b-1a2b3c4d5e6f' }
+                        : verification
+                );
+            })
+        } as unknown as IAgentRuntime
+    };
+};
+
+const client = { profile: { username: 'testuser' } } as ClientBase;
+const pendingKey = 'twitter/testuser/pendingTweets';
+
+const submitReport = (queue: PostApprovalQueue, publishAt?: number) =>
+    queue.submit({
+        kind: 'report',
+        tweetTextForPosting: '📊 Daily Insights',
+        roomId: 'room-id' as UUID,
+        rawTweetContent: '📊 Daily Insights',
+        publishAt,
+        payload: { dateKey: '2026-01-12' }
+    });
+
+describe('Post Approval Queue', () => {
+    beforeEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should stay disabled unless TWITTER_APPROVAL_ENABLED is set', () => {
+        const { runtime } = createRuntime({}, {});
+        expect(new PostApprovalQueue(client, runtime).isEnabled).toBe(false);
+    });
+
+    it('should queue submitted posts with their kind and payload', async () => {
+        const { runtime, cache } = createRuntime({ TWITTER_APPROVAL_ENABLED: 'true' }, {});
+        const queue = new PostApprovalQueue(client, runtime);
+
+        const taskId = await submitReport(queue, 1000);
+
+        expect(taskId).toBe('0b6a7c1e-3f5d-4c2a-9e8b-1a2b3c4d5e6f');
+        expect(cache.get(pendingKey)).toEqual([
+            expect.objectContaining({ kind: 'report', taskId, publishAt: 1000, payload: { dateKey: '2026-01-12' } })
+        ]);
+    });
+
+    it('should hold approved posts until their publish time', async () => {
+        vi.useFakeTimers({ now: new Date('2026-01-12T08:00:00Z') });
+        const { runtime, cache } = createRuntime(
+            { TWITTER_APPROVAL_ENABLED: 'true' },
+            { status: 'completed', answer: 'yes' }
+        );
+        const queue = new PostApprovalQueue(client, runtime);
+        const published: PendingPost[] = [];
+        queue.onApproved('report', async (post) => { published.push(post); });
+
+        await submitReport(queue, new Date('2026-01-12T09:00:00Z').getTime());
+        await queue.checkPendingPosts();
+
+        expect(published).toHaveLength(0);
+        expect((cache.get(pendingKey) as PendingPost[])[0].approved).toBe(true);
+
+        vi.setSystemTime(new Date('2026-01-12T09:00:00Z'));
+        await queue.checkPendingPosts();
+
+        expect(published.map((post) => post.payload)).toEqual([{ dateKey: '2026-01-12' }]);
+        expect(cache.has(pendingKey)).toBe(false);
+    });
+
+    it('should drop rejected posts and keep posts without a publisher', async () => {
+        const rejected = createRuntime({ TWITTER_APPROVAL_ENABLED: 'true' }, { status: 'completed', answer: 'no' });
+        const rejectedQueue = new PostApprovalQueue(client, rejected.runtime);
+        const handler = vi.fn();
+        rejectedQueue.onApproved('report', handler);
+        await submitReport(rejectedQueue);
+        await rejectedQueue.checkPendingPosts();
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(rejected.cache.has(pendingKey)).toBe(false);
+        expect(rejected.runtime.messageManager.createMemory).toHaveBeenCalledWith(
+            expect.objectContaining({
+                content: expect.objectContaining({
+                    metadata: expect.objectContaining({ kind: 'report', resolution: 'rejected' })
+                })
+            })
+        );
+
+        const unhandled = createRuntime({ TWITTER_APPROVAL_ENABLED: 'true' }, { status: 'completed', answer: 'yes' });
+        const unhandledQueue = new PostApprovalQueue(client, unhandled.runtime);
+        await submitReport(unhandledQueue);
+        await unhandledQueue.checkPendingPosts();
+
+        expect(unhandled.cache.get(pendingKey)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ReportArchive, renderArchiveHtml, renderArchiveMarkdown, type ReportArchiveEntry } from '../src/report/archive';
+
+const createEntry = (date: string, overrides: Partial<ReportArchiveEntry> = {}): ReportArchiveEntry => ({
+    date,
+    generatedAt: `${date}T09:00:00.000Z`,
+    report: '📊 Daily Insights\n• AI agents are everywhere',
+    analysis: {
+        themes: [{ name: 'AI agents', quantity: 3, emotion: 'positive' }],
+        trends: ['Agents ship on-chain'],
+        top_mentions: ['@dfinity'],
+        notable_tweets: ['1']
+    },
+    stats: { totalTweets: 3, topHashtags: ['ICP'], sentiment: { positive: 2, neutral: 1, negative: 0 } },
+    userActivity: [{
+        username: 'user1',
+        tweetCount: 1,
+        likes: 5,
+        retweets: 1,
+        replies: 0,
+        topTweet: null,
+        topHashtags: [],
+        summary: 'Loves agents'
+    }],
+    sharedLinks: {
+        links: [{ url: 'https://example.com/post', domain: 'example.com', sharers: ['user1', 'user2'], tweetIds: ['1', '2'] }],
+        domains: [{ domain: 'example.com', linkCount: 1, sharers: ['user1', 'user2'] }]
+    },
+    tweets: [{
+        id: '1',
+        username: 'user1',
+        text: 'Agents <3 ICP',
+        permanentUrl: 'https://twitter.com/user1/status/1',
+        createdAt: `${date}T08:00:00.000Z`,
+        likes: 5,
+        retweets: 1,
+        sentiment: { score: 0.6, label: 'positive' }
+    }],
+    prompts: [{ name: 'analysis', text: 'Please analyze the following tweets' }],
+    ...overrides
+});
+
+describe('Report Archive', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'report-archive-'));
+    });
+
+    afterEach(async () => {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should render the report, analysis, source tweets and prompts as Markdown', () => {
+        const markdown = renderArchiveMarkdown(createEntry('2026-01-15'));
+
+        expect(markdown).toContain('# Daily Report 2026-01-15');
+        expect(markdown).toContain('• AI agents are everywhere');
+        expect(markdown).toContain('- AI agents (3 tweets, positive)');
+        expect(markdown).toContain('[@user1](https://twitter.com/user1/status/1)');
+        expect(markdown).toContain('Agents <3 ICP (positive (+0.60))');
+        expect(markdown).toContain('- @user1: 1 tweets, 5 likes, 1 retweets, 0 replies - Loves agents');
+        expect(markdown).toContain('- https://example.com/post (@user1, @user2)');
+        expect(markdown).toContain('### analysis');
+    });
+
+    it('should render each language of the report', () => {
+        const entry = createEntry('2026-01-15', {
+            translations: [{ language: 'Chinese', report: '📊 Daily Insights\n• AI 代理无处不在' }]
+        });
+
+        expect(renderArchiveMarkdown(entry)).toContain('## Report (Chinese)\n\n📊 Daily Insights\n• AI 代理无处不在');
+        expect(renderArchiveHtml(entry)).toContain('<h2>Report (Chinese)</h2>');
+    });
+
+    it('should list collapsed stories', () => {
+        const entry = createEntry('2026-01-15', {
+            stories: [
+                {
+                    id: '1',
+                    tweetIds: ['1', '2'],
+                    authors: ['user1', 'user2'],
+                    counts: { likes: 12, retweets: 3, replies: 0, quotes: 0, bookmarks: 0, views: 0 }
+                }
+            ]
+        });
+
+        expect(renderArchiveMarkdown(entry)).toContain(
+            '## Collapsed Stories\n\n- 1: 2 tweets by @user1, @user2, 12 likes, 3 retweets (1, 2)'
+        );
+        expect(renderArchiveHtml(entry)).toContain('<h2>Collapsed Stories</h2>');
+        expect(renderArchiveMarkdown(createEntry('2026-01-15'))).not.toContain('Collapsed Stories');
+    });
+
+    it('should escape tweet text in HTML', () => {
+        const html = renderArchiveHtml(createEntry('2026-01-15'));
+
+        expect(html).toContain('Agents &lt;3 ICP');
+        expect(html).toContain('<a href="https://twitter.com/user1/status/1">@user1</a>');
+    });
+
+    it('should write one file per format and index every day newest first', async () => {
+        const archive = new ReportArchive(directory, ['markdown', 'html', 'json']);
+        await archive.write(createEntry('2026-01-14'));
+        await archive.write(createEntry('2026-01-15'));
+        await archive.write(createEntry('2026-01-14', { stats: { totalTweets: 7, topHashtags: [], sentiment: { positive: 0, neutral: 7, negative: 0 } } }));
+
+        const files = (await fs.promises.readdir(directory)).sort();
+        expect(files).toEqual([
+            '2026-01-14.html', '2026-01-14.json', '2026-01-14.md',
+            '2026-01-15.html', '2026-01-15.json', '2026-01-15.md',
+            'index.html', 'index.json', 'index.md'
+        ]);
+
+        const index = await archive.readIndex();
+        expect(index.map((day) => [day.date, day.totalTweets])).toEqual([['2026-01-15', 3], ['2026-01-14', 7]]);
+
+        const json = JSON.parse(await fs.promises.readFile(path.join(directory, '2026-01-15.json'), 'utf8'));
+        expect(json.tweets[0].permanentUrl).toBe('https://twitter.com/user1/status/1');
+        expect(await fs.promises.readFile(path.join(directory, 'index.md'), 'utf8')).toContain('[md](2026-01-15.md)');
+    });
+
+    it('should only write the configured formats', async () => {
+        await new ReportArchive(directory, ['json']).write(createEntry('2026-01-15'));
+
+        expect((await fs.promises.readdir(directory)).sort()).toEqual(['2026-01-15.json', 'index.json']);
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getReportWindow,
+    isInWindow,
+    tweetFromMemory,
+    withSearchWindow
+} from '../src/report/backfill';
+import type { Memory } from '@elizaos/core';
+import type { Tweet } from 'agent-twitter-client';
+
+describe('Report Backfill', () => {
+    it('should cover the lookback before the report time', () => {
+        const window = getReportWindow('2024-03-10', '09:00', 'Europe/Berlin', 24);
+
+        expect(window.until.toISOString()).toBe('2024-03-10T08:00:00.000Z');
+        expect(window.since.toISOString()).toBe('2024-03-09T08:00:00.000Z');
+    });
+
+    it('should add since and until operators to searches', () => {
+        const window = getReportWindow('2024-03-10', '09:00', 'UTC', 12);
+
+        expect(withSearchWindow('from:dfinity', window)).toBe(
+            'from:dfinity since:2024-03-09_21:00:00_UTC until:2024-03-10_09:00:00_UTC'
+        );
+    });
+
+    it('should check tweets against the window', () => {
+        const window = getReportWindow('2024-03-10', '09:00', 'UTC', 24);
+        const at = (iso: string) =>
+            ({ id: '1', timestamp: new Date(iso).getTime() / 1000 }) as Tweet;
+
+        expect(isInWindow(at('2024-03-09T09:00:00Z'), window)).toBe(true);
+        expect(isInWindow(at('2024-03-10T08:59:59Z'), window)).toBe(true);
+        expect(isInWindow(at('2024-03-10T09:00:00Z'), window)).toBe(false);
+        expect(isInWindow({ id: '2' } as Tweet, window)).toBe(false);
+    });
+
+    it('should rebuild tweets from memories', () => {
+        const tweet = tweetFromMemory({
+            content: {
+                text: 'Chain Fusion is live #ICP',
+                url: 'https://x.com/dfinity/status/1766000000000000000',
+                source: 'twitter'
+            },
+            createdAt: 1710000000000
+        } as Memory);
+
+        expect(tweet).toMatchObject({
+            id: '1766000000000000000',
+            username: 'dfinity',
+            text: 'Chain Fusion is live #ICP',
+            permanentUrl: 'https://twitter.com/dfinity/status/1766000000000000000',
+            timestamp: 1710000000,
+            hashtags: ['ICP']
+        });
+        expect(tweetFromMemory({ content: { text: 'gm' } } as Memory)).toBeNull();
+    });
+});
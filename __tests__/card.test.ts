@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    DEFAULT_REPORT_CARD_STYLE,
+    renderReportCard,
+    renderReportCardSvg,
+    type ReportCardData
+} from '../src/report/card';
+
+const data: ReportCardData = {
+    title: 'Daily Report',
+    subtitle: '2026-01-15 · 40 tweets',
+    themes: [
+        { name: 'Chain Fusion', count: 10 },
+        { name: 'AI agents <on-chain>', count: 30 }
+    ],
+    sentiment: { positive: 25, neutral: 10, negative: 5 }
+};
+
+describe('Report Card', () => {
+    it('should chart theme shares and the sentiment split', () => {
+        const svg = renderReportCardSvg(data, DEFAULT_REPORT_CARD_STYLE);
+
+        expect(svg).toContain('width="1200" height="675"');
+        expect(svg).toContain('>Daily Report</text>');
+        expect(svg.indexOf('AI agents &lt;on-chain&gt;')).toBeLessThan(svg.indexOf('Chain Fusion'));
+        expect(svg).toContain('>75%</text>');
+        expect(svg).toContain('>25%</text>');
+        expect(svg).toContain('>Positive 63%</text>');
+        expect(svg).toContain('>Negative 13%</text>');
+    });
+
+    it('should apply the profile style', () => {
+        const svg = renderReportCardSvg(data, {
+            ...DEFAULT_REPORT_CARD_STYLE,
+            layout: 'columns',
+            maxThemes: 1,
+            brand: '@icp_daily',
+            colors: { ...DEFAULT_REPORT_CARD_STYLE.colors, background: '#ffffff', bars: ['#29abe2'] }
+        });
+
+        expect(svg).toContain('<rect width="1200" height="675" fill="#ffffff"/>');
+        expect(svg).toContain('fill="#29abe2"');
+        expect(svg).not.toContain('Chain Fusion');
+        expect(svg).toContain('>@icp_daily</text>');
+    });
+
+    it('should render days without data', () => {
+        const svg = renderReportCardSvg(
+            { ...data, themes: [], sentiment: { positive: 0, neutral: 0, negative: 0 } },
+            DEFAULT_REPORT_CARD_STYLE
+        );
+
+        expect(svg).toContain('No themes today');
+        expect(svg).toContain('>Neutral 0%</text>');
+    });
+
+    it('should rasterize the card to a PNG', async () => {
+        const media = await renderReportCard({ data, style: DEFAULT_REPORT_CARD_STYLE });
+
+        expect(media.mediaType).toBe('image/png');
+        expect(media.data.subarray(1, 4).toString()).toBe('PNG');
+    });
+
+    it('should skip the card when the rasterizer cannot be loaded', async () => {
+        vi.resetModules();
+        vi.doMock('@resvg/resvg-js', () => {
+            throw new Error('Module did not self-register');
+        });
+        try {
+            const card = await import('../src/report/card');
+
+            expect(await card.renderReportCard({ data, style: DEFAULT_REPORT_CARD_STYLE })).toBeNull();
+        } finally {
+            vi.doUnmock('@resvg/resvg-js');
+        }
+    });
+});
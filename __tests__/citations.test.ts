@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildCitationSources,
+    extractFigures,
+    removeUnverifiedFigures,
+    verifyReportCitations
+} from '../src/report/citations';
+import type { Tweet } from 'agent-twitter-client';
+
+const tweets = [
+    {
+        id: '1880000000000000001',
+        username: 'dfinity',
+        text: 'OpenChat now hosts 2.1M active users on #Web3',
+        likes: 1234,
+        retweets: 56
+    },
+    {
+        id: '1880000000000000002',
+        username: 'icp_news',
+        text: 'Chain Fusion keeps growing',
+        likes: 12,
+        retweets: 3
+    }
+] as Tweet[];
+
+describe('Report Citations', () => {
+    const sources = buildCitationSources(tweets, ['{"themes":[{"quantity":12}]}', 40]);
+
+    it('should extract figures but not small counts, dates or counters', () => {
+        expect(extractFigures('63% of 2M+ users, 1.2K likes on 2026-01-12 at 09:00, 3 themes, 1/5 in 2026')).toEqual([
+            { raw: '63%', value: 63, lowerBound: false },
+            { raw: '2M+', value: 2000000, lowerBound: true },
+            { raw: '1.2K', value: 1200, lowerBound: false }
+        ]);
+    });
+
+    it('should keep collected tweets and remove unknown ones', () => {
+        const check = verifyReportCitations(
+            [
+                '• OpenChat tops 2M+ users 🚀 - https://x.com/dfinity/status/1880000000000000001',
+                '• ICP hits 25K TPS ⚡ - https://twitter.com/dfinity/status/1999999999999999999',
+                '• See tweet 1999999999999999998'
+            ].join('\n'),
+            sources
+        );
+
+        expect(check.text).toBe(
+            [
+                '• OpenChat tops 2M+ users 🚀 - https://x.com/dfinity/status/1880000000000000001',
+                '• ICP hits 25K TPS ⚡',
+                '• See tweet'
+            ].join('\n')
+        );
+        expect(check.verifiedCitations).toBe(1);
+        expect(check.unknownCitations).toEqual([
+            'https://twitter.com/dfinity/status/1999999999999999999',
+            '1999999999999999998'
+        ]);
+        expect(check.verifiedFigures).toBe(1);
+        expect(check.unverifiedFigures).toEqual(['25K']);
+        expect(check.unverifiedRatio).toBeCloseTo(3 / 5);
+    });
+
+    it('should strip invented footnote markers but keep real tokens', () => {
+        const check = verifyReportCitations(
+            'AI contracts improve efficiency.1 Web3 adoption on Layer2 grows[2], with 1.2K likes and 40% positive¹',
+            buildCitationSources(tweets, [40])
+        );
+
+        expect(check.text).toBe(
+            'AI contracts improve efficiency. Web3 adoption on Layer2 grows, with 1.2K likes and 40% positive'
+        );
+        expect(check.unknownCitations).toEqual(['[2]', '¹', '.1']);
+    });
+
+    it('should keep digits that are part of a word', () => {
+        const check = verifyReportCitations('Fees on Layer2 fell as web3 apps moved to ERC20 tokens.', buildCitationSources(tweets));
+
+        expect(check.text).toBe('Fees on Layer2 fell as web3 apps moved to ERC20 tokens.');
+        expect(check.unknownCitations).toEqual([]);
+        expect(check.unverifiedFigures).toEqual([]);
+    });
+
+    it('should drop bullet points with untraceable figures', () => {
+        const report = ['📊 Daily Insights', '• 12 tweets about Chain Fusion', '• User growth up 28%', '#ICP'].join('\n');
+
+        expect(removeUnverifiedFigures(report, sources)).toBe(
+            ['📊 Daily Insights', '• 12 tweets about Chain Fusion', '#ICP'].join('\n')
+        );
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Tweet } from 'agent-twitter-client';
+import { collectTweetsInWindow, dedupeTweets } from '../src/report/collector';
+import type { ClientBase } from '../src/base';
+import { createTweet } from './helpers/tweets';
+
+const HOUR = 60 * 60;
+const now = new Date('2026-01-15T12:00:00Z');
+const nowSeconds = now.getTime() / 1000;
+
+const createTweetAt = (id: string, hoursAgo: number, overrides: Partial<Tweet> = {}): Tweet =>
+    createTweet(id, 'user1', { timestamp: nowSeconds - hoursAgo * HOUR, ...overrides });
+
+const createClient = (pages: { tweets: Tweet[]; next?: string }[]) => {
+    const fetchSearchTweets = vi.fn(async (_query: string, _count: number, _mode: unknown, cursor?: string) => {
+        const index = cursor ? Number(cursor) : 0;
+        return pages[index] ?? { tweets: [] };
+    });
+    return { client: { fetchSearchTweets } as unknown as ClientBase, fetchSearchTweets };
+};
+
+describe('Report Tweet Collector', () => {
+    const since = new Date(now.getTime() - 24 * HOUR * 1000);
+
+    it('should page through cursors until the window is covered', async () => {
+        const { client, fetchSearchTweets } = createClient([
+            { tweets: [createTweetAt('1', 1), createTweetAt('2', 5)], next: '1' },
+            { tweets: [createTweetAt('3', 12), createTweetAt('4', 23)], next: '2' },
+            { tweets: [createTweetAt('5', 25), createTweetAt('6', 30)], next: '3' },
+            { tweets: [createTweetAt('7', 40)] }
+        ]);
+
+        const tweets = await collectTweetsInWindow(client, 'from:user1', { since, until: now, maxTweets: 50 });
+
+        expect(tweets.map((t) => t.id)).toEqual(['1', '2', '3', '4']);
+        expect(fetchSearchTweets).toHaveBeenCalledTimes(3);
+    });
+
+    it('should compare seconds-based timestamps against the window', async () => {
+        const { client } = createClient([
+            { tweets: [createTweetAt('1', 23.5), createTweetAt('2', 24.5)] }
+        ]);
+
+        const tweets = await collectTweetsInWindow(client, 'from:user1', { since, until: now, maxTweets: 50 });
+
+        expect(tweets.map((t) => t.id)).toEqual(['1']);
+    });
+
+    it('should dedupe tweets repeated across pages', async () => {
+        const { client } = createClient([
+            { tweets: [createTweetAt('1', 1), createTweetAt('2', 2)], next: '1' },
+            { tweets: [createTweetAt('2', 2), createTweetAt('3', 3)] }
+        ]);
+
+        const tweets = await collectTweetsInWindow(client, 'from:user1', { since, until: now, maxTweets: 50 });
+
+        expect(tweets.map((t) => t.id)).toEqual(['1', '2', '3']);
+    });
+
+    it('should skip retweets and only keep replies and quotes when requested', async () => {
+        const pages = [{
+            tweets: [
+                createTweetAt('1', 1),
+                createTweetAt('2', 2, { isRetweet: true }),
+                createTweetAt('3', 3, { isReply: true, inReplyToStatusId: '99' }),
+                createTweetAt('4', 4, { isQuoted: true, quotedStatusId: '98' })
+            ]
+        }];
+
+        const defaults = await collectTweetsInWindow(createClient(pages).client, 'from:user1', { since, until: now, maxTweets: 50 });
+        expect(defaults.map((t) => t.id)).toEqual(['1']);
+
+        const all = await collectTweetsInWindow(createClient(pages).client, 'from:user1', {
+            since,
+            until: now,
+            maxTweets: 50,
+            includeReplies: true,
+            includeQuotes: true
+        });
+        expect(all.map((t) => t.id)).toEqual(['1', '3', '4']);
+    });
+
+    it('should stop when the cursor repeats or the tweet limit is reached', async () => {
+        const { client, fetchSearchTweets } = createClient([
+            { tweets: [createTweetAt('1', 1)], next: '1' },
+            { tweets: [createTweetAt('2', 2)], next: '1' }
+        ]);
+
+        const tweets = await collectTweetsInWindow(client, 'from:user1', { since, until: now, maxTweets: 50 });
+        expect(tweets).toHaveLength(2);
+        expect(fetchSearchTweets).toHaveBeenCalledTimes(2);
+
+        const limited = await collectTweetsInWindow(createClient([
+            { tweets: [createTweetAt('1', 1), createTweetAt('2', 2), createTweetAt('3', 3)], next: '1' }
+        ]).client, 'from:user1', { since, until: now, maxTweets: 2 });
+        expect(limited.map((t) => t.id)).toEqual(['1', '2']);
+    });
+
+    it('should dedupe tweets by id', () => {
+        expect(dedupeTweets([createTweetAt('1', 1), createTweetAt('1', 1), createTweetAt('2', 2)]).map((t) => t.id)).toEqual(['1', '2']);
+    });
+});
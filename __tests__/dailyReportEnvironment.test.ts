@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { validateTwitterConfig } from '../src/environment';
+import type { IAgentRuntime } from '@elizaos/core';
+
+describe('Daily Report Configuration', () => {
+    const baseEnv = {
+        TWITTER_USERNAME: 'testuser123',
+        TWITTER_DRY_RUN: 'true',
+        TWITTER_EMAIL: 'test@example.com',
+        TWITTER_PASSWORD: 'hashedpassword',
+        TWITTER_2FA_SECRET: '',
+        TWITTER_TARGET_USERS: 'user1,user2',
+        MAX_TWEET_LENGTH: '280'
+    };
+
+    const createRuntime = (env: Record<string, string>) => ({
+        env: { ...baseEnv, ...env },
+        getEnv: function (key: string) {
+            return this.env[key] || null;
+        },
+        getSetting: function (key: string) {
+            return this.env[key] || null;
+        }
+    } as unknown as IAgentRuntime);
+
+    it('should use defaults when daily report settings are missing', async () => {
+        const config = await validateTwitterConfig(createRuntime({}));
+        expect(config.DAILY_REPORT_ENABLE).toBe(false);
+        expect(config.DAILY_REPORT_TIME).toBe('09:00');
+        expect(config.DAILY_REPORT_TIMEZONE).toBe('UTC');
+        expect(config.DAILY_REPORT_LOOKBACK_HOURS).toBe(24);
+        expect(config.DAILY_REPORT_TWEETS_PER_USER).toBe(50);
+        expect(config.DAILY_REPORT_TARGETS).toEqual(['twitter']);
+        expect(config.DAILY_REPORT_TEMPLATE).toBeUndefined();
+        expect(config.DAILY_REPORT_FORMAT).toBe('thread');
+        expect(config.DAILY_REPORT_THREAD_NUMBERING).toBe(false);
+        expect(config.TWITTER_SENTIMENT_ANALYZER).toBe('lexicon');
+        expect(config.DAILY_REPORT_APPROVAL_LEAD_MINUTES).toBe(60);
+        expect(config.DAILY_REPORT_SEARCH_QUERIES).toEqual([]);
+    });
+
+    it('should keep search queries with their operators', async () => {
+        const config = await validateTwitterConfig(createRuntime({
+            DAILY_REPORT_SEARCH_QUERIES: '#ICP lang:en, AI agents min_faves:100',
+            DAILY_REPORT_TWEETS_PER_QUERY: '200'
+        }));
+        expect(config.DAILY_REPORT_SEARCH_QUERIES).toEqual(['#ICP lang:en', 'AI agents min_faves:100']);
+        expect(config.DAILY_REPORT_TWEETS_PER_QUERY).toBe(200);
+    });
+
+    it('should parse daily report settings', async () => {
+        const config = await validateTwitterConfig(createRuntime({
+            DAILY_REPORT_ENABLE: 'true',
+            DAILY_REPORT_TIME: '18:30',
+            DAILY_REPORT_TIMEZONE: 'Asia/Shanghai',
+            DAILY_REPORT_LOOKBACK_HOURS: '48',
+            DAILY_REPORT_TWEETS_PER_USER: '100',
+            DAILY_REPORT_TARGETS: 'twitter, LOG',
+            DAILY_REPORT_TEMPLATE: '# Custom report {{summaryData}}',
+            DAILY_REPORT_FORMAT: 'Tweet',
+            DAILY_REPORT_THREAD_NUMBERING: 'true'
+        }));
+        expect(config.DAILY_REPORT_ENABLE).toBe(true);
+        expect(config.DAILY_REPORT_TIME).toBe('18:30');
+        expect(config.DAILY_REPORT_TIMEZONE).toBe('Asia/Shanghai');
+        expect(config.DAILY_REPORT_LOOKBACK_HOURS).toBe(48);
+        expect(config.DAILY_REPORT_TWEETS_PER_USER).toBe(100);
+        expect(config.DAILY_REPORT_TARGETS).toEqual(['twitter', 'log']);
+        expect(config.DAILY_REPORT_TEMPLATE).toBe('# Custom report {{summaryData}}');
+        expect(config.DAILY_REPORT_FORMAT).toBe('tweet');
+        expect(config.DAILY_REPORT_THREAD_NUMBERING).toBe(true);
+    });
+
+    it('should reject an invalid report time', async () => {
+        await expect(
+            validateTwitterConfig(createRuntime({ DAILY_REPORT_TIME: '25:00' }))
+        ).rejects.toThrow('DAILY_REPORT_TIME');
+    });
+
+    it('should reject an unknown timezone', async () => {
+        await expect(
+            validateTwitterConfig(createRuntime({ DAILY_REPORT_TIMEZONE: 'Mars/Olympus' }))
+        ).rejects.toThrow('DAILY_REPORT_TIMEZONE');
+    });
+
+    it('should reject unknown report targets', async () => {
+        await expect(
+            validateTwitterConfig(createRuntime({ DAILY_REPORT_TARGETS: 'twitter,fax' }))
+        ).rejects.toThrow('DAILY_REPORT_TARGETS');
+    });
+
+    it('should reject a lookback window longer than a week', async () => {
+        await expect(
+            validateTwitterConfig(createRuntime({ DAILY_REPORT_LOOKBACK_HOURS: '500' }))
+        ).rejects.toThrow('DAILY_REPORT_LOOKBACK_HOURS');
+    });
+
+    it('should parse weekly and monthly digest settings', async () => {
+        const defaults = await validateTwitterConfig(createRuntime({}));
+        expect(defaults.WEEKLY_REPORT_ENABLE).toBe(false);
+        expect(defaults.WEEKLY_REPORT_DAY).toBe('sunday');
+        expect(defaults.MONTHLY_REPORT_ENABLE).toBe(false);
+
+        const config = await validateTwitterConfig(createRuntime({
+            WEEKLY_REPORT_ENABLE: 'true',
+            WEEKLY_REPORT_DAY: 'Friday',
+            WEEKLY_REPORT_TIME: '17:00',
+            MONTHLY_REPORT_ENABLE: 'true'
+        }));
+        expect(config.WEEKLY_REPORT_ENABLE).toBe(true);
+        expect(config.WEEKLY_REPORT_DAY).toBe('friday');
+        expect(config.WEEKLY_REPORT_TIME).toBe('17:00');
+        expect(config.MONTHLY_REPORT_ENABLE).toBe(true);
+        expect(config.MONTHLY_REPORT_TIME).toBeUndefined();
+
+        await expect(
+            validateTwitterConfig(createRuntime({ WEEKLY_REPORT_DAY: 'someday' }))
+        ).rejects.toThrow('WEEKLY_REPORT_DAY');
+    });
+
+    it('should require Discord credentials for the discord target', async () => {
+        await expect(
+            validateTwitterConfig(createRuntime({ DAILY_REPORT_TARGETS: 'discord' }))
+        ).rejects.toThrow('DAILY_REPORT_DISCORD_CHANNEL_IDS');
+
+        const config = await validateTwitterConfig(createRuntime({
+            DAILY_REPORT_TARGETS: 'twitter,discord',
+            TWITTER_APPROVAL_DISCORD_BOT_TOKEN: 'approval-token',
+            DAILY_REPORT_DISCORD_CHANNEL_IDS: '123, 456'
+        }));
+        expect(config.DAILY_REPORT_DISCORD_BOT_TOKEN).toBe('approval-token');
+        expect(config.DAILY_REPORT_DISCORD_CHANNEL_IDS).toEqual(['123', '456']);
+    });
+
+    it('should merge engagement weights with the defaults', async () => {
+        const config = await validateTwitterConfig(createRuntime({
+            DAILY_REPORT_ENGAGEMENT_WEIGHTS: 'Likes:0.5, views:0.01',
+            DAILY_REPORT_ENGAGEMENT_NORMALIZE: 'false'
+        }));
+        expect(config.DAILY_REPORT_ENGAGEMENT_WEIGHTS).toEqual({
+            likes: 0.5, retweets: 2, replies: 1.5, quotes: 2, bookmarks: 1, views: 0.01
+        });
+        expect(config.DAILY_REPORT_ENGAGEMENT_NORMALIZE).toBe(false);
+
+        await expect(
+            validateTwitterConfig(createRuntime({ DAILY_REPORT_ENGAGEMENT_WEIGHTS: 'likes:many' }))
+        ).rejects.toThrow('DAILY_REPORT_ENGAGEMENT_WEIGHTS');
+        await expect(
+            validateTwitterConfig(createRuntime({ DAILY_REPORT_ENGAGEMENT_WEIGHTS: 'favs:1' }))
+        ).rejects.toThrow('DAILY_REPORT_ENGAGEMENT_WEIGHTS');
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateSnapshots, formatDigest, getDigestRange } from '../src/report/digest';
+import type { DailyAnalysisSnapshot } from '../src/report/snapshots';
+
+const createSnapshot = (date: string, overrides: Partial<DailyAnalysisSnapshot> = {}): DailyAnalysisSnapshot => ({
+    date,
+    createdAt: 0,
+    totalTweets: 10,
+    themes: [],
+    trends: [],
+    sentiment: { positive: 1, neutral: 8, negative: 1 },
+    topHashtags: [],
+    notableTweetIds: [],
+    tweetIds: [],
+    userActivity: [],
+    sharedLinks: { links: [], domains: [] },
+    ...overrides
+});
+
+describe('Report Digests', () => {
+    it('should cover 7 and 30 days ending on the digest date', () => {
+        expect(getDigestRange('weekly', '2026-01-18')).toEqual({ from: '2026-01-12', to: '2026-01-18' });
+        expect(getDigestRange('monthly', '2026-01-31')).toEqual({ from: '2026-01-02', to: '2026-01-31' });
+    });
+
+    it('should merge themes across days and rank them by days seen', () => {
+        const digest = aggregateSnapshots('weekly', '2026-01-12', '2026-01-18', [
+            createSnapshot('2026-01-13', { themes: [{ name: 'AI Agents', count: 4 }, { name: 'DeFi', count: 9 }] }),
+            createSnapshot('2026-01-12', { themes: [{ name: 'ai agents', count: 3 }] }),
+            createSnapshot('2026-01-14', { themes: [{ name: 'AI agents!', count: 2 }] })
+        ]);
+
+        expect(digest.themes).toEqual([
+            { name: 'AI agents!', count: 9, days: 3 },
+            { name: 'DeFi', count: 9, days: 1 }
+        ]);
+        expect(digest.days.map((day) => day.date)).toEqual(['2026-01-12', '2026-01-13', '2026-01-14']);
+        expect(digest.totalTweets).toBe(30);
+        expect(digest.sentiment).toEqual({ positive: 3, neutral: 24, negative: 3 });
+    });
+
+    it('should collect tweet IDs, trends and hashtags newest first', () => {
+        const digest = aggregateSnapshots('weekly', '2026-01-12', '2026-01-18', [
+            createSnapshot('2026-01-12', { tweetIds: ['1', '2'], trends: ['old trend'], topHashtags: ['ICP', 'AI'] }),
+            createSnapshot('2026-01-13', { tweetIds: ['2', '3'], trends: ['new trend', 'old trend'], topHashtags: ['AI'] })
+        ]);
+
+        expect(digest.tweetIds).toEqual(['2', '3', '1']);
+        expect(digest.trends).toEqual(['new trend', 'old trend']);
+        expect(digest.topHashtags).toEqual(['AI', 'ICP']);
+    });
+
+    it('should render the digest prompt block', () => {
+        const text = formatDigest(aggregateSnapshots('weekly', '2026-01-12', '2026-01-18', [
+            createSnapshot('2026-01-12', { themes: [{ name: 'DeFi', count: 2 }], topHashtags: ['ICP'] })
+        ]));
+
+        expect(text).toContain('Daily reports covered: 1 (2026-01-12 to 2026-01-18)');
+        expect(text).toContain('- DeFi: 1 days, 2 tweets');
+        expect(text).toContain('Top hashtags: #ICP');
+    });
+});
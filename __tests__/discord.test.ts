@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import type { Tweet } from 'agent-twitter-client';
+import { buildReportEmbed } from '../src/report/discord';
+
+const sections = ['Daily Insights', 'Hot Topics', 'Trend Observation'];
+
+describe('Discord Report Embed', () => {
+    it('should turn report sections into embed fields with source tweet links', () => {
+        const report = [
+            'Good morning!',
+            '📊 **Daily Insights**',
+            '• AI agents everywhere',
+            '🏅 Hot Topics',
+            '• Sovereign cloud'
+        ].join('\n');
+        const tweets = [{ id: '1', username: 'user1', permanentUrl: 'https://twitter.com/user1/status/1' }] as Tweet[];
+
+        const embed = buildReportEmbed('📊 Daily Report 2026-01-15', report, sections, tweets);
+
+        expect(embed.title).toBe('📊 Daily Report 2026-01-15');
+        expect(embed.description).toBe('Good morning!');
+        expect(embed.fields).toEqual([
+            { name: '📊 Daily Insights', value: '• AI agents everywhere' },
+            { name: '🏅 Hot Topics', value: '• Sovereign cloud' },
+            { name: 'Source Tweets', value: '[@user1](https://twitter.com/user1/status/1)' }
+        ]);
+    });
+
+    it('should keep field values within the Discord limit', () => {
+        const embed = buildReportEmbed('Report', `Hot Topics\n${'x'.repeat(2000)}`, sections);
+
+        expect(embed.fields).toHaveLength(1);
+        expect(embed.fields?.[0].value.length).toBe(1024);
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_ENGAGEMENT_WEIGHTS,
+    getEngagementRate,
+    rankTweetsByEngagement,
+    scoreTweet,
+    updateAuthorBaselines
+} from '../src/report/engagement';
+import { createTweet } from './helpers/tweets';
+
+describe('Engagement Analytics', () => {
+    it('should score tweets with weighted metrics', () => {
+        const tweet = createTweet('1', 'user1', { likes: 10, retweets: 2, replies: 2, quotes: 1, bookmarkCount: 3, views: 1000 });
+
+        expect(scoreTweet(tweet)).toBe(10 + 4 + 3 + 2 + 3);
+        expect(scoreTweet(tweet, { ...DEFAULT_ENGAGEMENT_WEIGHTS, likes: 0, views: 0.01 })).toBe(4 + 3 + 2 + 3 + 10);
+        expect(getEngagementRate(tweet)).toBeCloseTo(18 / 1000);
+        expect(getEngagementRate(createTweet('2', 'user1', { likes: 5 }))).toBeNull();
+    });
+
+    it('should rank by raw score and return the top N', () => {
+        const ranked = rankTweetsByEngagement([
+            createTweet('1', 'small', { likes: 5 }),
+            createTweet('2', 'big', { likes: 500 }),
+            createTweet('3', 'big', { likes: 100 })
+        ], { limit: 2 });
+
+        expect(ranked.map(({ tweet }) => tweet.id)).toEqual(['2', '3']);
+        expect(ranked[0].score).toBe(500);
+    });
+
+    it('should rank relative to the author baseline', () => {
+        const ranked = rankTweetsByEngagement([
+            createTweet('1', 'small', { likes: 50 }),
+            createTweet('2', 'big', { likes: 500 })
+        ], { normalizeByAuthor: true, baselines: { small: 10, big: 1000 } });
+
+        expect(ranked.map(({ tweet }) => tweet.id)).toEqual(['1', '2']);
+        expect(ranked[0].normalizedScore).toBe(5);
+        expect(ranked[1].normalizedScore).toBe(0.5);
+    });
+
+    it('should normalize grouped tweets by their mean normalized score', () => {
+        const lead = createTweet('1', 'small', { likes: 1010 });
+        const members = new Map([['1', [
+            createTweet('1', 'small', { likes: 10 }),
+            createTweet('2', 'big', { likes: 1000 })
+        ]]]);
+        const ranked = rankTweetsByEngagement([
+            lead,
+            createTweet('3', 'small', { likes: 20 })
+        ], { normalizeByAuthor: true, baselines: { small: 10, big: 1000 }, members });
+
+        // Two typical tweets rank below one tweet at twice its author's baseline,
+        // summed against the lead's baseline the story would score 101
+        expect(ranked.map(({ tweet }) => tweet.id)).toEqual(['3', '1']);
+        expect(ranked.map(({ normalizedScore }) => normalizedScore)).toEqual([2, 1]);
+        expect(ranked[1].score).toBe(1010);
+    });
+
+    it('should smooth stored baselines', () => {
+        expect(updateAuthorBaselines({ user1: 100 }, { user1: 200, user2: 10 }, 0.5)).toEqual({ user1: 150, user2: 10 });
+    });
+});
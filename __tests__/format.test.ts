@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+    appendReportSections,
+    checkReportFormat,
+    DEFAULT_REPORT_FORMAT_CONSTRAINTS,
+    enforceReportFormat,
+    getWeightedLength,
+    splitByWeightedLength,
+    truncateToWeightedLength
+} from '../src/report/format';
+
+describe('Report Format', () => {
+    it('should count lengths the way Twitter does', () => {
+        expect(getWeightedLength('hello')).toBe(5);
+        expect(getWeightedLength('see https://example.com/a/very/long/path')).toBe(27);
+        expect(getWeightedLength('🚀')).toBe(2);
+        expect(getWeightedLength('👩‍💻')).toBe(2);
+        expect(getWeightedLength('日本語')).toBe(6);
+        expect(getWeightedLength('café — ok')).toBe(9);
+    });
+
+    it('should truncate at a word boundary', () => {
+        const text = truncateToWeightedLength('one two three four five', 12);
+        expect(text).toBe('one two…');
+        expect(getWeightedLength(text)).toBeLessThanOrEqual(12);
+        expect(truncateToWeightedLength('short', 12)).toBe('short');
+    });
+
+    it('should split by weighted length', () => {
+        const pieces = splitByWeightedLength('日本語 日本語 日本語', 14);
+        expect(pieces).toEqual(['日本語 日本語', '日本語']);
+    });
+
+    it('should report each violation', () => {
+        const report = [
+            'Daily Report 🚀🔥📈💡',
+            `• ${'a very long bullet point '.repeat(5)}`,
+            '#ICP #AI #Web3'
+        ].join('\n');
+
+        const rules = checkReportFormat(report, {
+            ...DEFAULT_REPORT_FORMAT_CONSTRAINTS,
+            maxLength: 100
+        }).map((violation) => violation.rule);
+        expect(rules).toEqual(['length', 'hashtags', 'emojis', 'bullet']);
+    });
+
+    it('should accept a compliant report', () => {
+        const report = 'Daily Report 🚀\n• Chain Fusion shipped\n#ICP';
+        expect(checkReportFormat(report, DEFAULT_REPORT_FORMAT_CONSTRAINTS)).toEqual([]);
+        expect(enforceReportFormat(report, DEFAULT_REPORT_FORMAT_CONSTRAINTS)).toEqual({
+            text: report,
+            fixed: []
+        });
+    });
+
+    it('should trim extra hashtags and emojis', () => {
+        const report = 'Big day 🚀 🔥 📈 💡 for #ICP and #AI with #Web3\n#ICP #AI #DeFi';
+        const { text, fixed } = enforceReportFormat(report, DEFAULT_REPORT_FORMAT_CONSTRAINTS);
+
+        expect(text).toBe('Big day 🚀 🔥 📈 for #ICP and #AI with Web3');
+        expect(fixed.map((violation) => violation.rule)).toEqual(['hashtags', 'emojis']);
+    });
+
+    it('should cut long bullet points', () => {
+        const report = `Themes\n• ${'word '.repeat(30)}`;
+        const { text } = enforceReportFormat(report, DEFAULT_REPORT_FORMAT_CONSTRAINTS);
+        const bullet = text.split('\n')[1];
+
+        expect(bullet.endsWith('…')).toBe(true);
+        expect(getWeightedLength(bullet)).toBeLessThanOrEqual(100);
+    });
+
+    it('should drop trailing bullet points to fit the length', () => {
+        const report = [
+            'Daily Report',
+            '• First theme of the day',
+            '• Second theme of the day',
+            '• Third theme of the day'
+        ].join('\n');
+        const constraints = { ...DEFAULT_REPORT_FORMAT_CONSTRAINTS, maxLength: 70 };
+        const { text, fixed } = enforceReportFormat(report, constraints);
+
+        expect(text).toBe('Daily Report\n• First theme of the day\n• Second theme of the day');
+        expect(fixed.map((violation) => violation.rule)).toEqual(['length']);
+        expect(checkReportFormat(text, constraints)).toEqual([]);
+    });
+
+    it('should append data sections unchanged after enforcing the report', () => {
+        const section = [
+            '📊 Account Activity',
+            '• @dfinity: 4 tweets, 1200 likes, 340 RTs, #ICP, #DeFi - Announced the Chain Fusion roadmap and new Bitcoin integration milestones https://twitter.com/dfinity/status/1',
+            '• @alice: 2 tweets, 15 likes, 3 RTs, #DeFi, #AI, #Web3 - Shared 🚀 📈 🔥 💡 thoughts on agents https://twitter.com/alice/status/2'
+        ].join('\n');
+        const { text } = enforceReportFormat('Busy day for #ICP #AI 🚀', DEFAULT_REPORT_FORMAT_CONSTRAINTS);
+        const report = appendReportSections(text, [section]);
+
+        expect(report).toBe(`Busy day for #ICP #AI 🚀\n\n${section}`);
+        expect(appendReportSections(text, [])).toBe(text);
+    });
+});
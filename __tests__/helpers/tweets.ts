@@ -0,0 +1,25 @@
+import type { Tweet } from 'agent-twitter-client';
+
+/**
+ * A scraped tweet with no engagement, for the report tests.
+ */
+export const createTweet = (
+    id: string,
+    username = 'user1',
+    overrides: Partial<Tweet> & { quotes?: number } = {}
+): Tweet => ({
+    id,
+    username,
+    text: `tweet ${id}`,
+    permanentUrl: `https://twitter.com/${username}/status/${id}`,
+    likes: 0,
+    retweets: 0,
+    replies: 0,
+    hashtags: [],
+    mentions: [],
+    photos: [],
+    thread: [],
+    urls: [],
+    videos: [],
+    ...overrides
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateSharedLinks, formatSharedLinksSection, normalizeUrl } from '../src/report/links';
+import { createTweet } from './helpers/tweets';
+
+// Scraped URLs are strings, expanded t.co entities are objects
+const createLinkTweet = (id: string, username: string, urls: unknown[]) =>
+    createTweet(id, username, { urls: urls as string[] });
+
+describe('Shared Links', () => {
+    it('should normalize URLs', () => {
+        expect(normalizeUrl('http://WWW.Example.com/post/?utm_source=x&b=2&a=1#top')).toBe('https://example.com/post?a=1&b=2');
+        expect(normalizeUrl('https://example.com/')).toBe('https://example.com');
+        expect(normalizeUrl('ftp://example.com/file')).toBeNull();
+        expect(normalizeUrl('not a url')).toBeNull();
+    });
+
+    it('should dedupe links and rank them by distinct sharers', () => {
+        const { links, domains } = aggregateSharedLinks([
+            createLinkTweet('1', 'user1', ['https://example.com/post?utm_source=twitter', 'https://github.com/org/repo']),
+            createLinkTweet('2', 'user1', ['https://www.example.com/post']),
+            createLinkTweet('3', 'user2', [{ url: 'https://t.co/abc', expanded_url: 'https://example.com/post/' }]),
+            createLinkTweet('4', 'user3', ['https://github.com/org/other', 'https://x.com/user1/status/1'])
+        ]);
+
+        expect(links.map((link) => link.url)).toEqual([
+            'https://example.com/post',
+            'https://github.com/org/repo',
+            'https://github.com/org/other'
+        ]);
+        expect(links[0]).toMatchObject({ domain: 'example.com', sharers: ['user1', 'user2'], tweetIds: ['1', '2', '3'] });
+        expect(domains).toEqual([
+            { domain: 'github.com', linkCount: 2, sharers: ['user1', 'user3'] },
+            { domain: 'example.com', linkCount: 1, sharers: ['user1', 'user2'] }
+        ]);
+    });
+
+    it('should render the report section', () => {
+        const section = formatSharedLinksSection(aggregateSharedLinks([
+            createLinkTweet('1', 'user1', ['https://example.com/post']),
+            createLinkTweet('2', 'user2', ['https://example.com/post'])
+        ]));
+
+        expect(section).toBe([
+            '🔗 Most Shared Links',
+            '• https://example.com/post - @user1, @user2',
+            'Top domains: example.com (2 users)'
+        ].join('\n'));
+        expect(formatSharedLinksSection({ links: [], domains: [] })).toBe('🔗 Most Shared Links\n• No links shared');
+    });
+});
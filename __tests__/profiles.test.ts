@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { validateTwitterConfig } from '../src/environment';
+import {
+    DEFAULT_REPORT_PROFILE,
+    getReportCacheKeyPrefix,
+    resolveReportProfiles
+} from '../src/report/profiles';
+import { stringToUuid, type IAgentRuntime } from '@elizaos/core';
+
+describe('Report Profiles', () => {
+    const baseEnv = {
+        TWITTER_USERNAME: 'testuser123',
+        TWITTER_DRY_RUN: 'true',
+        TWITTER_EMAIL: 'test@example.com',
+        TWITTER_PASSWORD: 'hashedpassword',
+        TWITTER_2FA_SECRET: '',
+        TWITTER_TARGET_USERS: 'user1,user2',
+        MAX_TWEET_LENGTH: '280'
+    };
+
+    const createRuntime = (twitterReports?: unknown, env: Record<string, string> = {}) => ({
+        env: { ...baseEnv, ...env },
+        character: { twitterReports },
+        getEnv: function (key: string) {
+            return this.env[key] || null;
+        },
+        getSetting: function (key: string) {
+            return this.env[key] || null;
+        }
+    } as unknown as IAgentRuntime);
+
+    it('should build a single default profile from the settings', async () => {
+        const config = await validateTwitterConfig(createRuntime(undefined, {
+            DAILY_REPORT_TIME: '18:30',
+            WEEKLY_REPORT_ENABLE: 'true'
+        }));
+        const [profile, ...rest] = resolveReportProfiles(config);
+
+        expect(rest).toHaveLength(0);
+        expect(profile.name).toBe(DEFAULT_REPORT_PROFILE);
+        expect(profile.targetUsers).toEqual(['user1', 'user2']);
+        expect(profile.time).toBe('18:30');
+        expect(profile.weekly).toEqual({ day: 'sunday', time: '18:30' });
+        expect(profile.monthly).toBeNull();
+        expect(getReportCacheKeyPrefix('testuser123', profile.name)).toBe('twitter/testuser123');
+    });
+
+    it('should resolve character file profiles over the settings', async () => {
+        const config = await validateTwitterConfig(createRuntime([
+            {
+                name: 'ai',
+                targetUsers: ['@OpenAI', 'AnthropicAI'],
+                templates: { analysis: '# AI analysis {{formattedTweets}}' },
+                schedule: { time: '07:00', timezone: 'Europe/Berlin', weekly: { day: 'Monday' } },
+                roomId: 'ai-room',
+                targets: ['log']
+            },
+            {
+                name: 'crypto',
+                searchQueries: ['#bitcoin lang:en'],
+                schedule: { lookbackHours: 12, monthly: { enabled: false } }
+            }
+        ], { MONTHLY_REPORT_ENABLE: 'true', DAILY_REPORT_TEMPLATE: '# Report' }));
+        const [ai, crypto] = resolveReportProfiles(config);
+
+        expect(ai.targetUsers).toEqual(['OpenAI', 'AnthropicAI']);
+        expect(ai.searchQueries).toEqual([]);
+        expect(ai.templates).toMatchObject({ analysis: '# AI analysis {{formattedTweets}}', report: '# Report' });
+        expect(ai.time).toBe('07:00');
+        expect(ai.timeZone).toBe('Europe/Berlin');
+        expect(ai.weekly).toEqual({ day: 'monday', time: '07:00' });
+        expect(ai.monthly).toEqual({ time: '07:00' });
+        expect(ai.roomId).toBe(stringToUuid('ai-room'));
+        expect(ai.targets).toEqual(['log']);
+
+        expect(crypto.targetUsers).toEqual([]);
+        expect(crypto.searchQueries).toEqual(['#bitcoin lang:en']);
+        expect(crypto.lookbackHours).toBe(12);
+        expect(crypto.weekly).toBeNull();
+        expect(crypto.monthly).toBeNull();
+        expect(crypto.roomId).toBe(stringToUuid('twitter_dailyreport_room-testuser123-crypto'));
+        expect(crypto.targets).toEqual(['twitter']);
+        expect(getReportCacheKeyPrefix('testuser123', crypto.name)).toBe('twitter/testuser123/reports/crypto');
+    });
+
+    it('should resolve report languages', async () => {
+        const config = await validateTwitterConfig(createRuntime([
+            { name: 'ai', targetUsers: ['OpenAI'], targets: ['twitter'] },
+            {
+                name: 'icp',
+                targetUsers: ['dfinity'],
+                targets: ['twitter'],
+                languages: ['English', { language: 'Chinese', targets: ['log'] }],
+                languageDelivery: 'separate'
+            }
+        ], { DAILY_REPORT_LANGUAGES: 'English, Chinese' }));
+        const [ai, icp] = resolveReportProfiles(config);
+
+        expect(ai.languages).toEqual([
+            { name: 'English', targets: ['twitter'], discordChannelIds: [] },
+            { name: 'Chinese', targets: ['twitter'], discordChannelIds: [] }
+        ]);
+        expect(ai.languageDelivery).toBe('thread');
+        expect(icp.languages).toEqual([
+            { name: 'English', targets: ['twitter'], discordChannelIds: [] },
+            { name: 'Chinese', targets: ['log'], discordChannelIds: [] }
+        ]);
+        expect(icp.languageDelivery).toBe('separate');
+    });
+
+    it('should default to English', async () => {
+        const config = await validateTwitterConfig(createRuntime());
+        const [profile] = resolveReportProfiles(config);
+
+        expect(profile.languages.map((language) => language.name)).toEqual(['English']);
+    });
+
+    it('should resolve chart card styles', async () => {
+        const config = await validateTwitterConfig(createRuntime([
+            { name: 'ai', targetUsers: ['OpenAI'], card: { layout: 'columns', colors: { background: '#ffffff' } } },
+            { name: 'icp', targetUsers: ['dfinity'], card: { enabled: false } },
+            { name: 'crypto', searchQueries: ['#bitcoin'] }
+        ], { DAILY_REPORT_CARD_ENABLE: 'true' }));
+        const [ai, icp, crypto] = resolveReportProfiles(config);
+
+        expect(ai.card).toMatchObject({ layout: 'columns', width: 1200, brand: '@testuser123' });
+        expect(ai.card.colors).toMatchObject({ background: '#ffffff', text: '#ffffff' });
+        expect(icp.card).toBeNull();
+        expect(crypto.card).toMatchObject({ layout: 'stacked' });
+
+        await expect(
+            validateTwitterConfig(createRuntime([
+                { name: 'ai', targetUsers: ['OpenAI'], card: { colors: { bars: ['blue'] } } }
+            ]))
+        ).rejects.toThrow('DAILY_REPORT_PROFILES.0.card.colors.bars.0');
+    });
+
+    it('should reject invalid profiles', async () => {
+        await expect(
+            validateTwitterConfig(createRuntime([{ name: 'empty' }]))
+        ).rejects.toThrow('at least one target user or search query');
+
+        await expect(
+            validateTwitterConfig(createRuntime([
+                { name: 'ai', targetUsers: ['user1'] },
+                { name: 'AI', searchQueries: ['ai'] }
+            ]))
+        ).rejects.toThrow('Duplicate report profile name');
+
+        await expect(
+            validateTwitterConfig(createRuntime([
+                { name: 'ai', targetUsers: ['user1'], schedule: { time: '7am' } }
+            ]))
+        ).rejects.toThrow('DAILY_REPORT_PROFILES.0.schedule.time');
+
+        await expect(
+            validateTwitterConfig(createRuntime([
+                { name: 'ai', targetUsers: ['user1'], targets: ['discord'] }
+            ]))
+        ).rejects.toThrow('DAILY_REPORT_PROFILES.0.discordChannelIds');
+
+        await expect(
+            validateTwitterConfig(createRuntime([
+                {
+                    name: 'ai',
+                    targetUsers: ['user1'],
+                    languages: ['English', { language: 'Chinese', targets: ['discord'] }]
+                }
+            ]))
+        ).rejects.toThrow('DAILY_REPORT_PROFILES.0.languages.1.discordChannelIds');
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import type { ClientBase } from '../src/base';
+import { TweetPublisher, parseTweetResult } from '../src/publisher';
+
+const roomId = 'room-id' as UUID;
+
+const createResult = (id: string, text: string, inReplyTo?: string) => ({
+    rest_id: id,
+    legacy: {
+        full_text: text,
+        created_at: 'Wed Jan 14 12:00:00 +0000 2026',
+        conversation_id_str: id,
+        user_id_str: 'agent-user',
+        in_reply_to_status_id_str: inReplyTo
+    }
+});
+
+const createPublisher = ({ maxTweetLength = 280, failAt = -1, noteTweetErrors = false } = {}) => {
+    const cache = new Map<string, unknown>();
+    let nextId = 1;
+
+    const sendTweet = vi.fn(async (text: string, inReplyTo?: string) => {
+        const id = String(nextId++);
+        const body = Number(id) - 1 === failAt
+            ? { errors: [{ message: 'Rate limit exceeded' }] }
+            : { data: { create_tweet: { tweet_results: { result: createResult(id, text, inReplyTo) } } } };
+        return { json: async () => body };
+    });
+    const sendNoteTweet = vi.fn(async (text: string, inReplyTo?: string) =>
+        noteTweetErrors
+            ? { errors: [{ message: 'Not allowed' }] }
+            : { data: { notetweet_create: { tweet_results: { result: createResult(String(nextId++), text, inReplyTo) } } } }
+    );
+    const sendQuoteTweet = vi.fn(async (text: string) => ({
+        json: async () => ({ data: { create_tweet: { tweet_results: { result: createResult(String(nextId++), text) } } } })
+    }));
+
+    const client = {
+        profile: { id: 'agent-user', username: 'agent', screenName: 'Agent' },
+        twitterConfig: { MAX_TWEET_LENGTH: maxTweetLength },
+        twitterClient: { sendTweet, sendNoteTweet, sendQuoteTweet },
+        requestQueue: { add: (request: () => Promise<unknown>) => request() },
+        cacheTweet: vi.fn()
+    } as unknown as ClientBase;
+
+    const runtime = {
+        agentId: 'agent-id',
+        cacheManager: {
+            get: async (key: string) => cache.get(key),
+            set: async (key: string, value: unknown) => { cache.set(key, value); }
+        },
+        ensureRoomExists: vi.fn(),
+        ensureParticipantInRoom: vi.fn(),
+        messageManager: { createMemory: vi.fn() }
+    } as unknown as IAgentRuntime;
+
+    return { publisher: new TweetPublisher(client, runtime), client, runtime, cache, sendTweet, sendNoteTweet, sendQuoteTweet };
+};
+
+describe('Tweet Publisher', () => {
+    // Thread parts are spaced out with real delays
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should parse standard and note tweet responses', () => {
+        const result = createResult('1', 'gm');
+
+        expect(parseTweetResult({ data: { create_tweet: { tweet_results: { result } } } })).toBe(result);
+        expect(parseTweetResult({ data: { notetweet_create: { tweet_results: { result } } } })).toBe(result);
+        expect(parseTweetResult({ errors: [{ message: 'Rate limit exceeded' }] })).toBeUndefined();
+    });
+
+    it('should remember a post with its raw content and record the last post', async () => {
+        const { publisher, runtime, cache } = createPublisher();
+
+        const { tweets, memories } = await publisher.publish('gm ICP', {
+            roomId,
+            memoryText: 'gm ICP (raw)',
+            updateLastPost: true
+        });
+
+        expect(tweets.map((tweet) => tweet.permanentUrl)).toEqual(['https://twitter.com/agent/status/1']);
+        expect(memories[0]).toMatchObject({
+            userId: 'agent-id',
+            roomId,
+            createdAt: new Date('2026-01-14T12:00:00Z').getTime(),
+            content: { tweetId: '1', text: 'gm ICP (raw)', source: 'twitter', inReplyTo: undefined }
+        });
+        expect(runtime.messageManager.createMemory).toHaveBeenCalledTimes(1);
+        expect(cache.get('twitter/agent/lastPost')).toMatchObject({ id: '1' });
+    });
+
+    it('should thread long replies and put the action on the last tweet', async () => {
+        const { publisher, sendTweet, cache } = createPublisher({ maxTweetLength: 40 });
+
+        const published = publisher.publish(
+            '@alice @alice Thanks for asking.\n\nChain Fusion ships next week.',
+            { roomId, inReplyTo: '99', action: 'CONTINUE_TOPIC' }
+        );
+        await vi.runAllTimersAsync();
+        const { memories } = await published;
+
+        expect(sendTweet.mock.calls.map(([text, inReplyTo]) => [text, inReplyTo])).toEqual([
+            ['@alice Thanks for asking.', '99'],
+            ['Chain Fusion ships next week.', '1']
+        ]);
+        expect(memories.map((memory) => memory.content.action)).toEqual(['CONTINUE', 'CONTINUE_TOPIC']);
+        expect(memories[1].content.inReplyTo).toBe(memories[0].id);
+        expect(cache.has('twitter/agent/lastPost')).toBe(false);
+    });
+
+    it('should post a note tweet above the standard length and fall back when it fails', async () => {
+        const text = 'ICP is growing fast. '.repeat(20).trim();
+
+        const note = createPublisher({ maxTweetLength: 1000 });
+        await note.publisher.publish(text, { roomId });
+        expect(note.sendNoteTweet).toHaveBeenCalledTimes(1);
+        expect(note.sendTweet).not.toHaveBeenCalled();
+
+        const fallback = createPublisher({ maxTweetLength: 1000, noteTweetErrors: true });
+        const { tweets } = await fallback.publisher.publish(text, { roomId });
+        expect(tweets[0].text.length).toBeLessThanOrEqual(280);
+        expect(tweets[0].text.endsWith('.')).toBe(true);
+    });
+
+    it('should quote with the first tweet only', async () => {
+        const { publisher, sendQuoteTweet, cache } = createPublisher();
+
+        await publisher.publish('Huge if true', { roomId, quote: '42' });
+
+        expect(sendQuoteTweet).toHaveBeenCalledWith('Huge if true', '42', undefined);
+        // Only generated posts pace the post loop
+        expect(cache.has('twitter/agent/lastPost')).toBe(false);
+    });
+
+    it('should throw when the first tweet fails and keep the posted part of a thread otherwise', async () => {
+        const first = createPublisher();
+        await expect(first.publisher.publish('gm', { roomId })).resolves.toBeDefined();
+
+        const failing = createPublisher({ failAt: 0 });
+        await expect(failing.publisher.publish('gm', { roomId })).rejects.toThrow('Bad tweet response');
+        expect(failing.runtime.messageManager.createMemory).not.toHaveBeenCalled();
+
+        const partial = createPublisher({ failAt: 1 });
+        const published = partial.publisher.publishThread(['1/2', '2/2'], { roomId });
+        await vi.runAllTimersAsync();
+        const { tweets } = await published;
+        expect(tweets.map((tweet) => tweet.id)).toEqual(['1']);
+        expect(partial.runtime.messageManager.createMemory).toHaveBeenCalledTimes(1);
+    });
+});
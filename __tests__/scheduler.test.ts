@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getLatestScheduledRun,
+    getNextScheduledRun,
+    getScheduledTime,
+    onLastDayOfMonth,
+    onWeekday,
+    parseReportTime,
+    shiftDateKey,
+    toDateKey,
+} from '../src/report/scheduler';
+
+describe('Daily Report Scheduler', () => {
+    it('should parse HH:MM report times', () => {
+        expect(parseReportTime('09:30')).toEqual({ hour: 9, minute: 30 });
+        expect(parseReportTime('23:05')).toEqual({ hour: 23, minute: 5 });
+        expect(() => parseReportTime('24:00')).toThrow();
+        expect(() => parseReportTime('9am')).toThrow();
+    });
+
+    it('should resolve wall-clock times in the report timezone', () => {
+        expect(getScheduledTime('2026-01-15', '09:00', 'UTC').toISOString()).toBe('2026-01-15T09:00:00.000Z');
+        expect(getScheduledTime('2026-01-15', '09:00', 'Asia/Shanghai').toISOString()).toBe('2026-01-15T01:00:00.000Z');
+    });
+
+    it('should handle daylight saving transitions', () => {
+        expect(getScheduledTime('2026-03-07', '09:00', 'America/New_York').toISOString()).toBe('2026-03-07T14:00:00.000Z');
+        expect(getScheduledTime('2026-03-08', '09:00', 'America/New_York').toISOString()).toBe('2026-03-08T13:00:00.000Z');
+    });
+
+    it('should compute calendar dates in the report timezone', () => {
+        const instant = new Date('2026-01-15T20:00:00Z');
+        expect(toDateKey(instant, 'UTC')).toBe('2026-01-15');
+        expect(toDateKey(instant, 'Asia/Tokyo')).toBe('2026-01-16');
+        expect(shiftDateKey('2026-03-01', -1)).toBe('2026-02-28');
+    });
+
+    it('should return yesterday as the latest run before today\'s report time', () => {
+        const run = getLatestScheduledRun(new Date('2026-01-15T08:00:00Z'), '09:00', 'UTC');
+        expect(run.dateKey).toBe('2026-01-14');
+        expect(run.scheduledAt.toISOString()).toBe('2026-01-14T09:00:00.000Z');
+    });
+
+    it('should return today as the latest run after today\'s report time', () => {
+        const run = getLatestScheduledRun(new Date('2026-01-15T10:00:00Z'), '09:00', 'UTC');
+        expect(run.dateKey).toBe('2026-01-15');
+    });
+
+    it('should schedule the next run strictly in the future', () => {
+        const atReportTime = new Date('2026-01-15T09:00:00Z');
+        expect(getNextScheduledRun(atReportTime, '09:00', 'UTC').dateKey).toBe('2026-01-16');
+        expect(getNextScheduledRun(new Date('2026-01-15T08:59:00Z'), '09:00', 'UTC').dateKey).toBe('2026-01-15');
+    });
+
+    it('should schedule weekly runs on the configured weekday', () => {
+        const sunday = onWeekday('sunday');
+        const thursday = new Date('2026-01-15T10:00:00Z');
+        expect(getLatestScheduledRun(thursday, '09:00', 'UTC', sunday).dateKey).toBe('2026-01-11');
+        expect(getNextScheduledRun(thursday, '09:00', 'UTC', sunday).dateKey).toBe('2026-01-18');
+    });
+
+    it('should schedule monthly runs on the last day of the month', () => {
+        expect(onLastDayOfMonth('2026-01-31')).toBe(true);
+        expect(onLastDayOfMonth('2026-02-28')).toBe(true);
+        expect(onLastDayOfMonth('2028-02-28')).toBe(false);
+        const run = getNextScheduledRun(new Date('2026-01-31T10:00:00Z'), '09:00', 'UTC', onLastDayOfMonth);
+        expect(run.dateKey).toBe('2026-02-28');
+    });
+});
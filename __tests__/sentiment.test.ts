@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateText, type IAgentRuntime } from '@elizaos/core';
+import {
+    countSentiment,
+    LexiconSentimentAnalyzer,
+    LlmSentimentAnalyzer,
+    tokenizeSentimentText
+} from '../src/report/sentiment';
+
+vi.mock('@elizaos/core', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@elizaos/core')>()),
+    composeContext: vi.fn(({ template }) => template),
+    generateText: vi.fn()
+}));
+
+describe('Lexicon Sentiment Analyzer', () => {
+    const analyzer = new LexiconSentimentAnalyzer();
+
+    it('should score positive, negative and neutral texts', () => {
+        expect(analyzer.scoreText('This launch is great').label).toBe('positive');
+        expect(analyzer.scoreText('What a terrible outage').label).toBe('negative');
+        expect(analyzer.scoreText('Release notes are out').label).toBe('neutral');
+    });
+
+    it('should handle negation and intensifiers', () => {
+        const good = analyzer.scoreText('the docs are good').score;
+
+        expect(analyzer.scoreText("the docs aren't good").score).toBeLessThan(0);
+        expect(analyzer.scoreText('no problem at all').label).toBe('positive');
+        expect(analyzer.scoreText('the docs are very good').score).toBeGreaterThan(good);
+        expect(analyzer.scoreText('the docs are slightly good').score).toBeLessThan(good);
+    });
+
+    it('should read emoji and camel-cased hashtags', () => {
+        expect(tokenizeSentimentText('Shipped 🚀 #NotGreat @user1 https://t.co/abc')).toEqual(['shipped', '🚀', 'not', 'great']);
+        expect(analyzer.scoreText('Mainnet day 🎉🚀').label).toBe('positive');
+        expect(analyzer.scoreText('Another delay #NotGreat').label).toBe('negative');
+        expect(analyzer.scoreText('❤️').label).toBe('positive');
+    });
+
+    it('should accept a custom lexicon', () => {
+        expect(new LexiconSentimentAnalyzer({ wagmi: 2 }).scoreText('wagmi').label).toBe('positive');
+    });
+});
+
+describe('LLM Sentiment Analyzer', () => {
+    const runtime = {} as IAgentRuntime;
+
+    beforeEach(() => {
+        vi.mocked(generateText).mockReset();
+    });
+
+    it('should use the model scores', async () => {
+        vi.mocked(generateText).mockResolvedValueOnce('```json\n[0.9, -0.5, 0]\n```');
+
+        const scores = await new LlmSentimentAnalyzer(runtime).analyze(['a', 'b', 'c']);
+
+        expect(scores.map(({ label }) => label)).toEqual(['positive', 'negative', 'neutral']);
+        expect(countSentiment(scores)).toEqual({ positive: 1, neutral: 1, negative: 1 });
+    });
+
+    it('should fall back to the lexicon on a malformed answer', async () => {
+        vi.mocked(generateText).mockResolvedValueOnce('[0.9]');
+
+        const scores = await new LlmSentimentAnalyzer(runtime).analyze(['awesome', 'awful']);
+
+        expect(scores.map(({ label }) => label)).toEqual(['positive', 'negative']);
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { IAgentRuntime } from '@elizaos/core';
+import {
+    buildDailySnapshot,
+    DailySnapshotStore,
+    diffSnapshots,
+    formatSnapshotDiff
+} from '../src/report/snapshots';
+
+const createSnapshot = (
+    date: string,
+    themes: string[],
+    sentiment = { positive: 5, neutral: 3, negative: 2 }
+) =>
+    buildDailySnapshot(
+        date,
+        { totalTweets: 10, topHashtags: ['ICP'], sentiment },
+        {
+            themes: themes.map((name) => ({ name, quantity: 2, emotion: 'positive' })),
+            trends: [],
+            top_mentions: [],
+            notable_tweets: ['1']
+        },
+        ['1', '2']
+    );
+
+const createRuntime = () => {
+    const cache = new Map<string, unknown>();
+    return {
+        cache,
+        runtime: {
+            cacheManager: {
+                get: async (key: string) => cache.get(key),
+                set: async (key: string, value: unknown) => { cache.set(key, value); },
+                delete: async (key: string) => { cache.delete(key); }
+            }
+        } as unknown as IAgentRuntime
+    };
+};
+
+const prefix = 'twitter/testuser/dailyReport/snapshots';
+
+describe('Daily Snapshots', () => {
+    it('should diff themes by normalized name and sentiment shares', () => {
+        const diff = diffSnapshots(
+            createSnapshot('2026-01-14', ['AI Agents', 'DeFi', 'Governance']),
+            createSnapshot('2026-01-15', ['ai agents!', 'Chain Fusion', 'DeFi'], {
+                positive: 8,
+                neutral: 1,
+                negative: 1
+            })
+        );
+
+        expect(diff).toEqual({
+            previousDate: '2026-01-14',
+            newThemes: ['Chain Fusion'],
+            droppedThemes: ['Governance'],
+            continuingThemes: ['ai agents!', 'DeFi'],
+            sentimentShift: { positive: 30, neutral: -20, negative: -10 }
+        });
+        expect(formatSnapshotDiff(diff)).toBe(
+            [
+                'Compared with 2026-01-14:',
+                '- New themes: Chain Fusion',
+                '- Dropped themes: Governance',
+                '- Continuing themes: ai agents!, DeFi',
+                '- Sentiment shift: positive +30pp, neutral -20pp, negative -10pp'
+            ].join('\n')
+        );
+    });
+
+    it('should report no changes without a previous snapshot', () => {
+        const diff = diffSnapshots(null, createSnapshot('2026-01-15', ['AI Agents']));
+
+        expect(diff).toEqual({
+            previousDate: null,
+            newThemes: [],
+            droppedThemes: [],
+            continuingThemes: [],
+            sentimentShift: { positive: 0, neutral: 0, negative: 0 }
+        });
+        expect(formatSnapshotDiff(diff)).toBe('No previous report to compare with.');
+    });
+
+    it('should list stored dates in order and query them by range', async () => {
+        const { runtime } = createRuntime();
+        const store = new DailySnapshotStore(runtime, 'twitter/testuser');
+        await store.save(createSnapshot('2026-01-15', ['AI Agents']));
+        await store.save(createSnapshot('2026-01-13', ['DeFi']));
+        await store.save(createSnapshot('2026-01-14', ['Governance']));
+        await store.save(createSnapshot('2026-01-14', ['Chain Fusion']));
+
+        expect(await store.listDates()).toEqual(['2026-01-13', '2026-01-14', '2026-01-15']);
+        expect((await store.get('2026-01-14'))?.themes[0].name).toBe('Chain Fusion');
+        expect((await store.getRange('2026-01-14', '2026-01-15')).map((snapshot) => snapshot.date))
+            .toEqual(['2026-01-14', '2026-01-15']);
+        expect(await store.getRange('2026-02-01', '2026-02-07')).toEqual([]);
+    });
+
+    it('should find the latest snapshot before a date', async () => {
+        const { runtime } = createRuntime();
+        const store = new DailySnapshotStore(runtime, 'twitter/testuser');
+
+        expect(await store.getLatestBefore('2026-01-15')).toBeNull();
+
+        await store.save(createSnapshot('2026-01-12', ['DeFi']));
+        await store.save(createSnapshot('2026-01-15', ['AI Agents']));
+
+        expect((await store.getLatestBefore('2026-01-15'))?.date).toBe('2026-01-12');
+        expect((await store.getLatestBefore('2026-01-20'))?.date).toBe('2026-01-15');
+        expect(await store.getLatestBefore('2026-01-12')).toBeNull();
+    });
+
+    it('should keep a year of snapshots', async () => {
+        const { runtime, cache } = createRuntime();
+        const store = new DailySnapshotStore(runtime, 'twitter/testuser');
+        const start = Date.UTC(2025, 0, 1);
+        const dates = Array.from({ length: 366 }, (_, day) =>
+            new Date(start + day * 86_400_000).toISOString().slice(0, 10)
+        );
+        for (const date of dates) {
+            cache.set(`${prefix}/${date}`, createSnapshot(date, []));
+        }
+        cache.set(prefix, dates);
+
+        await store.save(createSnapshot('2026-01-15', ['AI Agents']));
+
+        const stored = await store.listDates();
+        expect(stored).toHaveLength(366);
+        expect(stored[0]).toBe(dates[1]);
+        expect(stored[stored.length - 1]).toBe('2026-01-15');
+        expect(cache.has(`${prefix}/${dates[0]}`)).toBe(false);
+        expect(cache.has(`${prefix}/${dates[1]}`)).toBe(true);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildReportSources,
+    formatSourceBreakdown,
+    tagTweetSources
+} from '../src/report/sources';
+import type { Tweet } from 'agent-twitter-client';
+
+const tweets = [
+    { id: '1', username: 'DFINITY', text: 'Chain Fusion is live #ICP' },
+    { id: '2', username: 'someone', text: 'Trying out #ICP today' },
+    { id: '3', username: 'another', text: 'ICP agents look promising' }
+] as Tweet[];
+
+describe('Report Sources', () => {
+    it('should turn target users and search queries into sources', () => {
+        expect(buildReportSources(['dfinity'], ['#ICP lang:en min_faves:10'])).toEqual([
+            { kind: 'account', query: 'from:dfinity', label: '@dfinity' },
+            { kind: 'search', query: '#ICP lang:en min_faves:10', label: '#ICP lang:en min_faves:10' }
+        ]);
+    });
+
+    it('should tag tweets by author', () => {
+        expect(tagTweetSources(tweets, ['dfinity'])).toEqual(
+            new Map([['1', 'account'], ['2', 'search'], ['3', 'search']])
+        );
+    });
+
+    it('should count tweets per kind of source', () => {
+        const sources = buildReportSources(['dfinity'], ['#ICP']);
+
+        expect(formatSourceBreakdown(sources, tagTweetSources(tweets, ['dfinity']))).toBe(
+            'From tracked accounts: 1 tweet (@dfinity)\nFrom the wider conversation: 2 tweets ("#ICP")'
+        );
+        expect(formatSourceBreakdown(buildReportSources(['dfinity'], []), tagTweetSources(tweets.slice(0, 1), ['dfinity']))).toBe(
+            'From tracked accounts: 1 tweet (@dfinity)\nFrom the wider conversation: none'
+        );
+    });
+});
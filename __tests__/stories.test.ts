@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { Tweet } from 'agent-twitter-client';
+import {
+    collapseStories,
+    computeMinHash,
+    estimateSimilarity,
+    formatStory,
+    getShingles,
+    normalizeStoryText
+} from '../src/report/stories';
+import { createTweet } from './helpers/tweets';
+
+const createStoryTweet = (id: string, username: string, text: string, extra: Partial<Tweet> = {}) =>
+    createTweet(id, username, { text, ...extra });
+
+const announcement =
+    'Chain Fusion is live on mainnet: ICP smart contracts can now sign Ethereum transactions directly';
+
+describe('Report Stories', () => {
+    it('should normalize away links, mentions and punctuation', () => {
+        expect(normalizeStoryText('RT @dfinity: Big news!! https://t.co/abc')).toBe('big news');
+        expect(normalizeStoryText('@alice @bob Big news, folks')).toBe('big news folks');
+    });
+
+    it('should estimate the similarity of shingle sets', () => {
+        const a = computeMinHash(getShingles(announcement));
+        const b = computeMinHash(getShingles(`${announcement} 🚀 https://t.co/xyz`));
+        const c = computeMinHash(getShingles('Our hackathon winners built AI agents this weekend'));
+
+        expect(estimateSimilarity(a, a)).toBe(1);
+        expect(estimateSimilarity(a, b)).toBeGreaterThan(0.9);
+        expect(estimateSimilarity(a, c)).toBeLessThan(0.3);
+    });
+
+    it('should collapse near-duplicate texts into one story', () => {
+        const stories = collapseStories([
+            createStoryTweet('1', 'dfinity', announcement, { likes: 100 }),
+            createStoryTweet('2', 'alice', `${announcement}!`, { likes: 5, retweets: 2 }),
+            createStoryTweet('3', 'bob', `@dfinity ${announcement} https://t.co/abc`, { likes: 1 }),
+            createStoryTweet('4', 'carol', 'Our hackathon winners built AI agents this weekend')
+        ]);
+
+        expect(stories).toHaveLength(2);
+        expect(stories[0].id).toBe('1');
+        expect(stories[0].tweetIds).toEqual(['1', '2', '3']);
+        expect(stories[0].authors).toEqual(['dfinity', 'alice', 'bob']);
+        expect(stories[0].counts.likes).toBe(106);
+        expect(stories[0].tweet.likes).toBe(106);
+        expect(stories[0].tweet.retweets).toBe(2);
+        expect(stories[1].tweetIds).toEqual(['4']);
+    });
+
+    it('should keep texts below the similarity threshold apart', () => {
+        const stories = collapseStories([
+            createStoryTweet('1', 'alice', 'ICP mainnet upgrade shipped today with faster finality'),
+            createStoryTweet('2', 'bob', 'ICP mainnet upgrade is delayed until next week')
+        ]);
+
+        expect(stories).toHaveLength(2);
+    });
+
+    it('should merge quote and retweet chains', () => {
+        const stories = collapseStories([
+            createStoryTweet('1', 'dfinity', announcement, { likes: 10 }),
+            createStoryTweet('2', 'alice', 'This changes everything for cross-chain apps', {
+                quotedStatusId: '1',
+                likes: 50
+            }),
+            createStoryTweet('3', 'bob', `RT @dfinity: ${announcement}`, {
+                isRetweet: true,
+                retweetedStatusId: '1',
+                likes: 500
+            }),
+            createStoryTweet('4', 'carol', 'Huge if true', { quotedStatusId: '99' }),
+            createStoryTweet('5', 'dave', 'Cannot wait to try it', { quotedStatusId: '99' })
+        ]);
+
+        expect(stories.map((story) => story.tweetIds)).toEqual([['1', '2', '3'], ['4', '5']]);
+        // Retweets never lead, the most engaged tweet with its own text does
+        expect(stories[0].id).toBe('2');
+        expect(stories[0].counts.likes).toBe(560);
+    });
+
+    it('should describe stories of several tweets', () => {
+        const [story, single] = collapseStories([
+            createStoryTweet('1', 'alice', announcement),
+            createStoryTweet('2', 'bob', announcement),
+            createStoryTweet('3', 'carol', 'gm')
+        ]);
+
+        expect(formatStory(story)).toBe('2 tweets by @alice, @bob (IDs: 1, 2)');
+        expect(formatStory(single)).toBeNull();
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { renderReportThread, splitReportSections } from '../src/report/thread';
+
+const sections = ['Daily Insights', 'Hot Topics', 'Trend Observation'];
+
+const report = [
+    '📊 **Daily Insights**',
+    '• 63% discussed AI + DeFi integration 🤖',
+    '• OpenChat user growth up 28% 🚀',
+    '🏅 Hot Topics',
+    '• "Sovereign Cloud" by DFINITY ☁️',
+    '🔍 Trend Observations',
+    '• AI agents on ICP 🤖',
+    '#ICP #DeFi'
+].join('\n');
+
+describe('Report Thread Renderer', () => {
+    it('should split a report at its section headings', () => {
+        expect(splitReportSections(report, sections)).toEqual([
+            '📊 **Daily Insights**\n• 63% discussed AI + DeFi integration 🤖\n• OpenChat user growth up 28% 🚀',
+            '🏅 Hot Topics\n• "Sovereign Cloud" by DFINITY ☁️',
+            '🔍 Trend Observations\n• AI agents on ICP 🤖\n#ICP #DeFi'
+        ]);
+    });
+
+    it('should recognize numbered and markdown headings', () => {
+        const numbered = 'Intro line\n1. Daily Insights\n• a\n## 2) Hot Topics\n• b\n3. 🔍 Trend Observation\n• c';
+        expect(splitReportSections(numbered, sections)).toEqual([
+            'Intro line\n1. Daily Insights\n• a',
+            '## 2) Hot Topics\n• b',
+            '3. 🔍 Trend Observation\n• c'
+        ]);
+    });
+
+    it('should not treat bullets mentioning a section name as headings', () => {
+        expect(splitReportSections('Daily Insights\n• Hot topics cooled off today', sections)).toHaveLength(1);
+    });
+
+    it('should add part numbers when requested', () => {
+        const parts = renderReportThread(report, { sections, maxLength: 280, numbering: true });
+        expect(parts).toHaveLength(3);
+        expect(parts[0].endsWith('\n1/3')).toBe(true);
+        expect(parts[2].endsWith('\n3/3')).toBe(true);
+    });
+
+    it('should keep every part within the maximum length', () => {
+        const longSection = ['🏅 Hot Topics', ...Array.from({ length: 8 }, (_, i) => `• Topic ${i} ${'x'.repeat(40)}`)].join('\n');
+        const longLine = `🔍 Trend Observations\n• ${'word '.repeat(80).trim()}`;
+        const parts = renderReportThread(`${longSection}\n${longLine}`, { sections, maxLength: 140, numbering: true });
+
+        expect(parts.length).toBeGreaterThan(3);
+        for (const part of parts) {
+            expect(part.length).toBeLessThanOrEqual(140);
+        }
+        expect(parts[0].startsWith('🏅 Hot Topics')).toBe(true);
+    });
+
+    it('should fall back to a single part without headings', () => {
+        expect(renderReportThread('Just a short update', { sections, maxLength: 280 })).toEqual(['Just a short update']);
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { clusterTweets, formatTopicClusters, tokenizeTopicText } from '../src/report/topics';
+import { createTweet } from './helpers/tweets';
+
+const tweets = [
+    createTweet('1', 'user1', { text: 'The ICP mainnet upgrade shipped today' }),
+    createTweet('2', 'user1', { text: 'Mainnet upgrade for ICP is live, nodes updated' }),
+    createTweet('3', 'user1', { text: 'ICP nodes finished the mainnet upgrade' }),
+    createTweet('4', 'user1', { text: 'Our hackathon winners built AI agents' }),
+    createTweet('5', 'user1', { text: 'AI agents hackathon demo day was fun' }),
+    createTweet('6', 'user1', { text: 'Judging the AI agents hackathon projects' }),
+    createTweet('7', 'user1', { text: 'gm' })
+];
+
+describe('Topic Clustering', () => {
+    it('should tokenize content words only', () => {
+        expect(tokenizeTopicText("We don't like the #ICP mainnet @dfinity https://t.co/abc 2025")).toEqual(['icp', 'mainnet']);
+    });
+
+    it('should group tweets by shared keywords', () => {
+        const clusters = clusterTweets(tweets);
+
+        expect(clusters).toHaveLength(2);
+        expect(clusters.map((cluster) => [...cluster.tweetIds].sort())).toEqual(
+            expect.arrayContaining([['1', '2', '3'], ['4', '5', '6']])
+        );
+        const agents = clusters.find((cluster) => cluster.tweetIds.includes('4'));
+        expect(agents.keywords).toEqual(expect.arrayContaining(['agents', 'hackathon']));
+        expect(agents.label).toBe(agents.keywords.join(', '));
+    });
+
+    it('should format clusters with sample tweets', () => {
+        const text = formatTopicClusters(clusterTweets(tweets), tweets, 1);
+
+        expect(text).toMatch(/^Cluster 1: .+ \(3 tweets\)\n- \[\d\] @user1: /);
+        expect(formatTopicClusters([], tweets)).toBe('No topic clusters found');
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { generateText, type IAgentRuntime, type State } from '@elizaos/core';
+import { computeUserActivity, formatUserActivitySection, summarizeUserActivity } from '../src/report/userActivity';
+import { createTweet } from './helpers/tweets';
+
+vi.mock('@elizaos/core', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@elizaos/core')>()),
+    composeContext: vi.fn(({ template }) => template),
+    generateText: vi.fn()
+}));
+
+const tweets = [
+    createTweet('1', 'User1', { likes: 10, retweets: 2, hashtags: ['AI', 'ICP'] }),
+    createTweet('2', 'user1', { likes: 50, retweets: 5, replies: 3, hashtags: ['AI'] }),
+    createTweet('3', 'user2', { likes: 1 })
+];
+
+describe('Per-user Activity', () => {
+    it('should break down tweets by target user', () => {
+        const [user1, user2, user3] = computeUserActivity(['user1', 'user2', 'user3'], tweets);
+
+        expect(user1).toMatchObject({ username: 'user1', tweetCount: 2, likes: 60, retweets: 7, replies: 3, topHashtags: ['AI', 'ICP'] });
+        expect(user1.topTweet?.id).toBe('2');
+        expect(user2.tweetCount).toBe(1);
+        expect(user3).toMatchObject({ tweetCount: 0, topTweet: null });
+    });
+
+    it('should render one line per user', () => {
+        const activity = computeUserActivity(['user1', 'user3'], tweets);
+        activity[0].summary = 'Talks about AI';
+
+        expect(formatUserActivitySection(activity).split('\n')).toEqual([
+            '👥 Account Activity',
+            '• @user1: 2 tweets, 60 likes, 7 RTs, #AI, #ICP - Talks about AI https://twitter.com/user1/status/2',
+            '• @user3: no tweets'
+        ]);
+    });
+
+    it('should attach model summaries and tolerate malformed responses', async () => {
+        const activity = computeUserActivity(['user1', 'user2'], tweets);
+
+        vi.mocked(generateText).mockResolvedValueOnce('```json\n{"@User1": "Talks about AI", "user2": "Quiet day"}\n```');
+        const summarized = await summarizeUserActivity({} as IAgentRuntime, {} as State, activity, tweets);
+        expect(summarized.map((user) => user.summary)).toEqual(['Talks about AI', 'Quiet day']);
+
+        vi.mocked(generateText).mockResolvedValueOnce('not json');
+        const fallback = await summarizeUserActivity({} as IAgentRuntime, {} as State, activity, tweets);
+        expect(fallback.map((user) => user.summary)).toEqual(['', '']);
+    });
+
+    it('should summarize tweets without text', async () => {
+        const textless = [...tweets, createTweet('4', 'user2', { text: undefined })];
+        const activity = computeUserActivity(['user2'], textless);
+
+        vi.mocked(generateText).mockResolvedValueOnce('{"user2": "Quiet day"}');
+        const summarized = await summarizeUserActivity({} as IAgentRuntime, {} as State, activity, textless);
+        expect(summarized[0].summary).toBe('Quiet day');
+    });
+});
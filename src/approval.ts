@@ -0,0 +1,632 @@
+import {
+    elizaLogger,
+    stringToUuid,
+    type IAgentRuntime,
+    type Memory,
+    type UUID,
+} from "@elizaos/core";
+import {
+    Client,
+    Events,
+    GatewayIntentBits,
+    Partials,
+    TextChannel,
+} from "discord.js";
+import type { ClientBase } from "./base.ts";
+
+// Pending posts without a decision are dropped after 24 hours
+const PENDING_POST_EXPIRY = 24 * 60 * 60 * 1000;
+const DEFAULT_APPROVAL_CHECK_INTERVAL = 5 * 60 * 1000;
+const MAX_DISCORD_DESCRIPTION_LENGTH = 4096;
+
+export type PendingPostApprovalStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+/**
+ * What kind of automated post is waiting for approval. Each kind is
+ * published by the handler its client registers with `onApproved`.
+ */
+export type PendingPostKind = "tweet" | "report";
+
+/**
+ * How a pending post left the queue, recorded in the verification room.
+ */
+export type PendingPostResolution = "published" | "rejected" | "expired";
+
+export const VERIFICATION_ROOM = "twitter_verification_room";
+
+export interface PendingPost<T = unknown> {
+    /** Missing on entries queued before reports could be approved */
+    kind?: PendingPostKind;
+    /** Text shown to the approvers */
+    tweetTextForPosting: string;
+    roomId: UUID;
+    rawTweetContent: string;
+    taskId: string;
+    timestamp: number;
+    /** Approved posts are held until this time (ms), if set */
+    publishAt?: number;
+    /** Set once approved, so the provider is not asked again */
+    approved?: boolean;
+    /** Whatever the handler needs to publish the post */
+    payload?: T;
+}
+
+export interface PostApprovalRequest<T = unknown> {
+    kind: PendingPostKind;
+    tweetTextForPosting: string;
+    roomId: UUID;
+    rawTweetContent: string;
+    publishAt?: number;
+    payload?: T;
+}
+
+/**
+ * Publishes an approved post. Throwing keeps the post queued, so it is
+ * retried on the next check until it expires.
+ */
+export type ApprovedPostHandler<T = unknown> = (
+    post: PendingPost<T>
+) => Promise<void>;
+
+/**
+ * Approval workflow shared by every client that posts on its own: sends
+ * posts to the configured provider (Raiinmaker or Discord), keeps them in
+ * the pending queue and hands approved posts to the handler of their kind.
+ */
+export class PostApprovalQueue {
+    client: ClientBase;
+    runtime: IAgentRuntime;
+    readonly provider: string;
+    private approvalRequired = false;
+    private approvalCheckInterval = DEFAULT_APPROVAL_CHECK_INTERVAL;
+    private discordClientForApproval: Client | null = null;
+    private discordApprovalChannelId = "";
+    private handlers = new Map<PendingPostKind, ApprovedPostHandler<any>>();
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+    private isChecking = false;
+
+    constructor(client: ClientBase, runtime: IAgentRuntime) {
+        this.client = client;
+        this.runtime = runtime;
+        this.provider = (
+            process.env.TWITTER_APPROVAL_PROVIDER || "RAIINMAKER"
+        ).toUpperCase();
+
+        const approvalEnabledSetting = this.runtime.getSetting("TWITTER_APPROVAL_ENABLED");
+        if (approvalEnabledSetting?.toLowerCase() !== "true") {
+            elizaLogger.debug("Twitter approval disabled by configuration");
+            return;
+        }
+
+        // The check interval is configured in seconds
+        const approvalCheckIntervalSetting = this.runtime.getSetting("TWITTER_APPROVAL_CHECK_INTERVAL");
+        if (approvalCheckIntervalSetting) {
+            this.approvalCheckInterval = Number.parseInt(approvalCheckIntervalSetting) * 1000;
+        }
+
+        if (this.provider === "DISCORD") {
+            const discordToken = this.runtime.getSetting("TWITTER_APPROVAL_DISCORD_BOT_TOKEN");
+            const channelId = this.runtime.getSetting("TWITTER_APPROVAL_DISCORD_CHANNEL_ID");
+
+            if (!discordToken || !channelId) {
+                elizaLogger.warn("Twitter approval is set to use Discord but credentials are missing");
+                return;
+            }
+            this.discordApprovalChannelId = channelId;
+            this.setupDiscordClient(discordToken);
+        } else {
+            if (this.provider !== "RAIINMAKER") {
+                elizaLogger.warn(`Unknown provider "${this.provider}", defaulting to Raiinmaker`);
+            }
+            const raiinmakerEnabled = this.runtime.actions.some(
+                (action) => action.name === "VERIFY_GENERATION_CONTENT"
+            );
+            if (!raiinmakerEnabled) {
+                elizaLogger.warn("Twitter approval is set to use Raiinmaker but the plugin is not available");
+                return;
+            }
+        }
+
+        this.approvalRequired = true;
+        elizaLogger.log(`Twitter approval enabled using ${this.provider} verification with ${this.approvalCheckInterval / 1000}s check interval`);
+    }
+
+    get isEnabled(): boolean {
+        return this.approvalRequired;
+    }
+
+    private get pendingPostsKey(): string {
+        return `twitter/${this.client.profile.username}/pendingTweets`;
+    }
+
+    private setupDiscordClient(token: string) {
+        try {
+            this.discordClientForApproval = new Client({
+                intents: [
+                    GatewayIntentBits.Guilds,
+                    GatewayIntentBits.GuildMessages,
+                    GatewayIntentBits.MessageContent,
+                    GatewayIntentBits.GuildMessageReactions,
+                ],
+                partials: [Partials.Channel, Partials.Message, Partials.Reaction],
+            });
+
+            this.discordClientForApproval.once(
+                Events.ClientReady,
+                (readyClient) => {
+                    elizaLogger.log(
+                        `Discord bot is ready as ${readyClient.user.tag}!`
+                    );
+
+                    // Generate invite link with required permissions
+                    const invite = `https://discord.com/api/oauth2/authorize?client_id=${readyClient.user.id}&permissions=274877991936&scope=bot`;
+                    // 274877991936 includes permissions for:
+                    // - Send Messages
+                    // - Read Messages/View Channels
+                    // - Read Message History
+
+                    elizaLogger.log(
+                        `Use this link to properly invite the Twitter Post Approval Discord bot: ${invite}`
+                    );
+                }
+            );
+
+            // Login to Discord with error handling
+            this.discordClientForApproval.login(token).catch((error) => {
+                elizaLogger.error("Error logging in to Discord:", error);
+                this.discordClientForApproval = null;
+            });
+            elizaLogger.log("Discord approval client initialized");
+        } catch (error) {
+            elizaLogger.error("Exception setting up Discord client:", error);
+            this.discordClientForApproval = null;
+        }
+    }
+
+    /**
+     * Registers the publisher of approved posts of one kind.
+     */
+    onApproved<T>(kind: PendingPostKind, handler: ApprovedPostHandler<T>) {
+        this.handlers.set(kind, handler);
+    }
+
+    /**
+     * Starts checking the pending queue. Safe to call from every client
+     * sharing the queue; only the first call starts the loop.
+     */
+    start() {
+        if (!this.approvalRequired || this.pollTimer) {
+            return;
+        }
+
+        this.pollTimer = setInterval(async () => {
+            try {
+                await this.checkPendingPosts();
+            } catch (error) {
+                elizaLogger.error("Error in tweet verification check loop:", error);
+            }
+        }, this.approvalCheckInterval);
+
+        elizaLogger.log(`Started ${this.provider} verification check loop`);
+    }
+
+    stop() {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+
+        // Disconnect Discord client if it was initialized
+        if (this.discordClientForApproval) {
+            elizaLogger.log("Disconnecting Discord client");
+            this.discordClientForApproval.destroy();
+            this.discordClientForApproval = null;
+        }
+    }
+
+    /**
+     * Sends a post to the configured provider and adds it to the pending
+     * queue. Returns the task ID, or null when the post could not be sent.
+     */
+    async submit<T>(request: PostApprovalRequest<T>): Promise<string | null> {
+        elizaLogger.log(`Sending ${request.kind} for ${this.provider} verification: "${request.tweetTextForPosting.substring(0, 50)}${request.tweetTextForPosting.length > 50 ? "..." : ""}"`);
+
+        const taskId =
+            this.provider === "DISCORD"
+                ? await this.sendForDiscordApproval(request)
+                : await this.sendForRaiinmakerVerification(request);
+        if (!taskId) {
+            return null;
+        }
+
+        const pendingPosts = await this.getPendingPosts();
+        pendingPosts.push({
+            kind: request.kind,
+            tweetTextForPosting: request.tweetTextForPosting,
+            roomId: request.roomId,
+            rawTweetContent: request.rawTweetContent,
+            taskId,
+            timestamp: Date.now(),
+            publishAt: request.publishAt,
+            payload: request.payload,
+        });
+        await this.runtime.cacheManager.set(this.pendingPostsKey, pendingPosts);
+
+        return taskId;
+    }
+
+    async getPendingPosts(): Promise<PendingPost[]> {
+        return (
+            (await this.runtime.cacheManager.get<PendingPost[]>(this.pendingPostsKey)) ?? []
+        );
+    }
+
+    /**
+     * Sends a post for verification through the Raiinmaker system.
+     * Returns the task ID of the verification task, or null.
+     */
+    private async sendForRaiinmakerVerification(
+        request: PostApprovalRequest<unknown>
+    ): Promise<string | null> {
+        let roomId = request.roomId;
+        try {
+            await this.runtime.ensureRoomExists(roomId);
+            await this.runtime.ensureParticipantInRoom(this.runtime.agentId, roomId);
+        } catch (roomError) {
+            elizaLogger.error("Failed to create original room for tweet verification:", roomError);
+
+            // Fall back to a stable, reusable room
+            try {
+                roomId = stringToUuid(VERIFICATION_ROOM);
+                await this.runtime.ensureRoomExists(roomId);
+                await this.runtime.ensureParticipantInRoom(this.runtime.agentId, roomId);
+            } catch (fallbackError) {
+                elizaLogger.error("Failed to create fallback room for tweet verification:", fallbackError);
+                return null;
+            }
+        }
+
+        try {
+            let verificationResult: any = null;
+            const actionMemory: Memory = {
+                id: stringToUuid(`tweet-verification-${Date.now()}`),
+                userId: this.runtime.agentId,
+                agentId: this.runtime.agentId,
+                roomId,
+                content: {
+                    type: "text",
+                    text: `Verify this content: "${request.tweetTextForPosting}"`,
+                    action: "VERIFY_GENERATION_CONTENT",
+                    options: {
+                        content: request.tweetTextForPosting,
+                        name: `Tweet Verification from @${this.client.profile.username}`,
+                        consensusVotes: 3,
+                        question: "Is this content appropriate for posting on Twitter?",
+                        roomId: roomId.toString(),
+                    },
+                },
+            };
+
+            await this.runtime.processActions(
+                actionMemory,
+                [actionMemory],
+                undefined,
+                async (result) => {
+                    if (result) {
+                        verificationResult = result;
+                    }
+                    return [actionMemory];
+                }
+            );
+
+            // The task ID is either returned directly or only mentioned in the text
+            const taskId: string | null =
+                verificationResult?.taskId ??
+                verificationResult?.text?.match(/Task ID: ([a-f0-9-]{36})/i)?.[1] ??
+                null;
+
+            if (!taskId) {
+                elizaLogger.error("Failed to create verification task: Invalid response from Raiinmaker plugin");
+                return null;
+            }
+
+            elizaLogger.log(`Successfully created verification task with ID: ${taskId}`);
+            return taskId;
+        } catch (error) {
+            elizaLogger.error("Error executing VERIFY_GENERATION_CONTENT action:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Checks the verification status of a task in the Raiinmaker system
+     */
+    private async checkRaiinmakerVerificationStatus(taskId: string): Promise<PendingPostApprovalStatus> {
+        try {
+            let verificationStatus: any = null;
+
+            const checkActionMemory: Memory = {
+                id: stringToUuid(`tweet-verification-status-${taskId}-${Date.now()}`),
+                userId: this.runtime.agentId,
+                agentId: this.runtime.agentId,
+                roomId: stringToUuid("verification_status_check"),
+                content: {
+                    type: "text",
+                    text: `Check verification status for task: "${taskId}"`,
+                    action: "CHECK_VERIFICATION_STATUS",
+                    options: { taskId },
+                },
+            };
+
+            await this.runtime.processActions(
+                checkActionMemory,
+                [checkActionMemory],
+                undefined,
+                async (result) => {
+                    verificationStatus = result;
+                    return [checkActionMemory];
+                }
+            );
+
+            if (!verificationStatus) {
+                return "PENDING";
+            }
+
+            const status = typeof verificationStatus.status === "string"
+                ? verificationStatus.status.toLowerCase()
+                : null;
+            const answer = typeof verificationStatus.answer === "string"
+                ? verificationStatus.answer.toLowerCase()
+                : null;
+
+            if (status === "completed") {
+                return answer === "true" || answer === "yes" ? "APPROVED" : "REJECTED";
+            }
+            return "PENDING";
+        } catch (error: any) {
+            if (error?.status === 404) {
+                return "REJECTED";
+            }
+            elizaLogger.error(`Error checking verification status for task ${taskId}:`, error);
+            return "PENDING";
+        }
+    }
+
+    /**
+     * Posts the text to the Discord approval channel with 👍/❌ reactions.
+     * Returns the message ID, or null.
+     */
+    private async sendForDiscordApproval(
+        request: PostApprovalRequest<unknown>
+    ): Promise<string | null> {
+        if (!this.discordClientForApproval || !this.discordApprovalChannelId) {
+            elizaLogger.error("Discord client or channel ID not configured for approval");
+            return null;
+        }
+
+        const text = request.tweetTextForPosting;
+        const embed = {
+            title: request.kind === "report" ? "New Report Pending Approval" : "New Tweet Pending Approval",
+            description:
+                text.length > MAX_DISCORD_DESCRIPTION_LENGTH
+                    ? `${text.slice(0, MAX_DISCORD_DESCRIPTION_LENGTH - 1)}…`
+                    : text,
+            fields: [
+                {
+                    name: "Character",
+                    value: this.client.profile.username,
+                    inline: true,
+                },
+                {
+                    name: "Length",
+                    value: text.length.toString(),
+                    inline: true,
+                },
+                ...(request.publishAt
+                    ? [
+                          {
+                              name: "Scheduled",
+                              value: new Date(request.publishAt).toISOString(),
+                              inline: true,
+                          },
+                      ]
+                    : []),
+            ],
+            footer: {
+                text: "React with 👍 to approve or ❌ to reject. This will expire after 24 hours if no response received.",
+            },
+            timestamp: new Date().toISOString(),
+            color: 0x1DA1F2, // Twitter blue color
+        };
+
+        try {
+            const channel = await this.discordClientForApproval.channels.fetch(this.discordApprovalChannelId);
+            if (!channel || !(channel instanceof TextChannel)) {
+                throw new Error(`Invalid Discord channel: ${this.discordApprovalChannelId}`);
+            }
+
+            const message = await channel.send({ embeds: [embed] });
+            await message.react("👍");
+            await message.react("❌");
+
+            elizaLogger.success(`Successfully sent ${request.kind} for Discord approval with message ID: ${message.id}`);
+            return message.id;
+        } catch (error) {
+            elizaLogger.error("Error sending Discord approval message:", error);
+            return null;
+        }
+    }
+
+    private async checkDiscordApprovalStatus(
+        discordMessageId: string
+    ): Promise<PendingPostApprovalStatus> {
+        try {
+            if (!this.discordClientForApproval) {
+                elizaLogger.error("Discord client not initialized for approval check");
+                return "PENDING";
+            }
+
+            const channel = await this.discordClientForApproval.channels.fetch(
+                this.discordApprovalChannelId
+            );
+            if (!(channel instanceof TextChannel)) {
+                elizaLogger.error("Invalid approval channel");
+                return "PENDING";
+            }
+
+            const message = await channel.messages.fetch(discordMessageId);
+            const countReactions = (emoji: string) =>
+                message.reactions.cache.find((reaction) => reaction.emoji.name === emoji)
+                    ?.count ?? 0;
+
+            // More than just the bot's own reaction
+            if (countReactions("❌") > 1) {
+                elizaLogger.log("Post rejected via Discord reaction");
+                return "REJECTED";
+            }
+            if (countReactions("👍") > 1) {
+                elizaLogger.log("Post approved via Discord reaction");
+                return "APPROVED";
+            }
+            return "PENDING";
+        } catch (error) {
+            elizaLogger.error(`Error checking approval status: ${error}`);
+            return "PENDING";
+        }
+    }
+
+    private async checkVerificationStatus(taskId: string): Promise<PendingPostApprovalStatus> {
+        return this.provider === "DISCORD"
+            ? this.checkDiscordApprovalStatus(taskId)
+            : this.checkRaiinmakerVerificationStatus(taskId);
+    }
+
+    /**
+     * Checks every pending post: expired and rejected posts are dropped,
+     * approved ones are published once their `publishAt` time has come.
+     */
+    async checkPendingPosts() {
+        if (this.isChecking) {
+            return;
+        }
+
+        this.isChecking = true;
+        try {
+            const pendingPosts = await this.getPendingPosts();
+            if (!pendingPosts.length) {
+                elizaLogger.log("No pending tweets to check");
+                return;
+            }
+
+            elizaLogger.log(`Checking ${pendingPosts.length} pending posts using ${this.provider} verification...`);
+            for (const post of pendingPosts) {
+                await this.checkPendingPost(post);
+            }
+        } finally {
+            this.isChecking = false;
+        }
+    }
+
+    private async checkPendingPost(post: PendingPost) {
+        const kind = post.kind ?? "tweet";
+
+        if (Date.now() - post.timestamp > PENDING_POST_EXPIRY) {
+            elizaLogger.warn(`Pending ${kind} with task ID ${post.taskId} expired after 24 hours`);
+            await this.cleanupPendingPost(post, "expired");
+            return;
+        }
+
+        if (!post.approved) {
+            const approvalStatus = await this.checkVerificationStatus(post.taskId);
+            elizaLogger.log(`Approval status for task ${post.taskId}: ${approvalStatus}`);
+
+            if (approvalStatus === "REJECTED") {
+                elizaLogger.warn(`${kind} with task ID ${post.taskId} rejected by ${this.provider} verification`);
+                await this.cleanupPendingPost(post, "rejected");
+                return;
+            }
+            if (approvalStatus === "PENDING") {
+                return;
+            }
+            await this.markApproved(post.taskId);
+        }
+
+        if (post.publishAt && post.publishAt > Date.now()) {
+            elizaLogger.log(`Approved ${kind} ${post.taskId} is scheduled for ${new Date(post.publishAt).toISOString()}`);
+            return;
+        }
+
+        const handler = this.handlers.get(kind);
+        if (!handler) {
+            elizaLogger.warn(`No publisher registered for approved ${kind} ${post.taskId}, keeping it queued`);
+            return;
+        }
+
+        try {
+            await handler(post);
+            elizaLogger.success(`Successfully posted verified ${kind}`);
+            await this.cleanupPendingPost(post, "published");
+        } catch (error) {
+            elizaLogger.error(`Error posting approved ${kind}, retrying on the next check:`, error);
+        }
+    }
+
+    private async markApproved(taskId: string) {
+        const pendingPosts = await this.getPendingPosts();
+        await this.runtime.cacheManager.set(
+            this.pendingPostsKey,
+            pendingPosts.map((post) =>
+                post.taskId === taskId ? { ...post, approved: true } : post
+            )
+        );
+    }
+
+    /**
+     * Removes a post from the pending queue and records the resolution
+     */
+    private async cleanupPendingPost(
+        { taskId, kind = "tweet" }: PendingPost,
+        resolution: PendingPostResolution
+    ) {
+        try {
+            const pendingPosts = (await this.getPendingPosts()).filter(
+                (post) => post.taskId !== taskId
+            );
+
+            if (pendingPosts.length === 0) {
+                await this.runtime.cacheManager.delete(this.pendingPostsKey);
+            } else {
+                await this.runtime.cacheManager.set(this.pendingPostsKey, pendingPosts);
+            }
+
+            const roomId = stringToUuid(VERIFICATION_ROOM);
+            try {
+                await this.runtime.ensureRoomExists(roomId);
+                await this.runtime.ensureParticipantInRoom(this.runtime.agentId, roomId);
+
+                await this.runtime.messageManager.createMemory({
+                    id: stringToUuid(`tweet-verification-cleanup-${Date.now()}`),
+                    userId: this.runtime.agentId,
+                    agentId: this.runtime.agentId,
+                    content: {
+                        text: `Verification task ${taskId} processed and removed from pending queue`,
+                        metadata: {
+                            taskType: "tweetVerificationCleanup",
+                            taskId,
+                            kind,
+                            resolution,
+                            timestamp: Date.now(),
+                        },
+                    },
+                    roomId,
+                    createdAt: Date.now(),
+                });
+            } catch (roomError) {
+                // The task is cleaned up even if the tracking memory can't be saved
+                elizaLogger.error("Error creating verification tracking memory:", roomError);
+            }
+        } catch (error) {
+            elizaLogger.error("Error cleaning up pending tweet:", error);
+        }
+    }
+}
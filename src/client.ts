@@ -6,10 +6,14 @@ import { TwitterPostClient } from "./post.ts";
 import { TwitterSearchClient } from "./search.ts";
 import { TwitterSpaceClient } from "./spaces.ts";
 import { DailyReportClient } from "./daily.ts";
+import { PostApprovalQueue } from "./approval.ts";
+import { TweetPublisher } from "./publisher.ts";
 
 /**
  * A manager that orchestrates all specialized Twitter logic:
  * - client: base operations (login, timeline caching, etc.)
+ * - publisher: posts every outbound tweet, reply and thread
+ * - approval: approval workflow shared by post and daily
  * - post: autonomous posting logic
  * - search: searching tweets / replying logic
  * - interaction: handling mentions, replies
@@ -17,6 +21,8 @@ import { DailyReportClient } from "./daily.ts";
  */
 class TwitterManager {
     client: ClientBase;
+    publisher: TweetPublisher;
+    approval: PostApprovalQueue;
     post: TwitterPostClient;
     search: TwitterSearchClient;
     interaction: TwitterInteractionClient;
@@ -27,8 +33,14 @@ class TwitterManager {
         // Pass twitterConfig to the base client
         this.client = new ClientBase(runtime, twitterConfig);
 
+        // Shared by every client that tweets
+        this.publisher = new TweetPublisher(this.client, runtime);
+
+        // Approval workflow for every automated post
+        this.approval = new PostApprovalQueue(this.client, runtime);
+
         // Posting logic
-        this.post = new TwitterPostClient(this.client, runtime);
+        this.post = new TwitterPostClient(this.client, runtime, this.approval, this.publisher);
 
         // Optional search logic (enabled if TWITTER_SEARCH_ENABLE is true)
         if (twitterConfig.TWITTER_SEARCH_ENABLE) {
@@ -37,16 +49,16 @@ class TwitterManager {
             elizaLogger.warn("2. burns your rate limit");
             elizaLogger.warn("3. can get your account banned");
             elizaLogger.warn("use at your own risk");
-            this.search = new TwitterSearchClient(this.client, runtime);
+            this.search = new TwitterSearchClient(this.client, runtime, this.publisher);
         }
 
         // 添加日报客户端
         if (twitterConfig.DAILY_REPORT_ENABLE) {
-            this.daily = new DailyReportClient(this.client, runtime);
+            this.daily = new DailyReportClient(this.client, runtime, this.approval, this.publisher);
         }
 
         // Mentions and interactions
-        this.interaction = new TwitterInteractionClient(this.client, runtime);
+        this.interaction = new TwitterInteractionClient(this.client, runtime, this.publisher);
 
         // Optional Spaces logic (enabled if TWITTER_SPACES_ENABLE is true)
         if (twitterConfig.TWITTER_SPACES_ENABLE) {
@@ -75,8 +87,10 @@ export const TwitterClientInterface: Client = {
         // Start the posting loop
         await manager.post.start();
 
-        // Start the daily report
-        await manager.daily.start();
+        // Start the daily report scheduler if it exists
+        if (manager.daily) {
+            await manager.daily.start();
+        }
 
         // Start the search logic if it exists
         if (manager.search) {
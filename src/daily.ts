@@ -3,78 +3,258 @@ import {
     generateText,
     ModelClass,
     type IAgentRuntime,
+    type State,
     elizaLogger,
     stringToUuid,
-    cleanJsonResponse,
     UUID,
-    truncateToCompleteSentence,
     getEmbeddingZeroVector,
 } from "@elizaos/core";
 import type { ClientBase } from "./base";
-import { DEFAULT_MAX_TWEET_LENGTH, TwitterConfig } from "./environment";
-import { SearchMode, type Tweet } from "agent-twitter-client";
+import { PostApprovalQueue } from "./approval";
+import { TweetPublisher } from "./publisher";
+import {
+    TwitterConfig,
+    type DailyReportTarget,
+} from "./environment";
+import type { Tweet } from "agent-twitter-client";
+import path from "path";
 import { wait } from "./utils";
 import { MediaData } from "./types";
-
-const dailyAnalysisTemplate = `
-Please analyze the following tweets to extract key themes and trends:
-Current tweets (total {{twitterCount}}, {{formattedTweets}})
-
-Contents to be analyzed:
-1. Identify 3-5 main discussion topics (sort by frequency)
-2. Count the number of relevant tweets for each topic
-3. Mark significant sentiment (positive/neutral/negative)
-4. Discover any discussion trends across users
-5. Identify important tweets with multiple citations
-
-Please return the analysis results in JSON format, including the following fields:
-- themes: array of themes (including name, quantity, emotion)
-- trends: trend description (1-3 items)
-- top_mentions: The top 3 users with the most mentions
-- notable_tweets: array of notable tweet IDs
-`
-
-const dailyReportTemplate = `
-# DAILY REPORT GENERATION TASK
-{{summaryData}}
-
-# ABOUT {{agentName}} (@{{twitterUserName}}):
-{{bio}}
-{{postDirections}}
-
-# INSTRUCTIONS:
-1. Generate a concise English daily report in bullet points
-2. Highlight key trends from target users' tweets
-3. Contains three parts: "Daily Insights", "Hot Topics", and "Trend Observation"
-4. List relevant tweet links for each topic
-5. Use a lighthearted tone that's appropriate for social media
-6. Use emojis for visual appeal (max 3)
-7. Format requirements:
-   - Start with 📊 **Daily Insights**
-   - 3-5 main points
-   - Each bullet point occupies one line
-   - Each point < 100 characters
-   - Total length < 280 characters
-   - Include relevant hashtags (max 2)
-
-# EXAMPLE:
-📊 Daily Insights
-• 63% discussed AI + DeFi integration 🤖 - ICP's AI-powered smart contracts are gaining traction in DeFi, improving execution efficiency1.
-• OpenChat’s user growth up 28% 🚀 - The decentralized social app on ICP now hosts 2M+ active users7.
-• BTC-ICP Chain Fusion adoption rising 🔗 - Over 15 projects now leverage direct Bitcoin smart contracts2.
-🏅 Hot Topics
-• "Sovereign Cloud" by DFINITY ☁️ - The Utopia project aims for censorship-resistant AI/cloud infrastructure1.
-• ICP's 25K TPS milestone ⚡ - Now the fastest blockchain, surpassing Solana & Aptos2.
-• DeFi TVL surges 1459% on Sui 📈 - Move-language rival highlights competitive pressure16.
-🔍 Trend Observations
-• AI agents on ICP 🤖 - Decentralized AI models now interact directly with smart contracts1.
-• Long-term AGI roadmaps ⏳ - ICP's DAO governance is exploring AI alignment frameworks17.
-• Regulatory scrutiny 🛡️ - New SEC guidelines may impact ICP's DeFi integrations6.
-#ICP #BlockchainTrends #DeFi #AICrypto
-
-# CURRENT DATA:
-{{formattedTweets}}
-`;
+import {
+    everyDay,
+    getLatestScheduledRun,
+    getNextScheduledRun,
+    onLastDayOfMonth,
+    onWeekday,
+    shiftDateKey,
+    toDateKey,
+    type ScheduleDayFilter,
+    type ScheduledRun,
+} from "./report/scheduler";
+import {
+    collectTweetsInWindow,
+    dedupeTweets,
+    getTweetTime,
+} from "./report/collector";
+import {
+    getReportWindow,
+    isInWindow,
+    tweetFromMemory,
+    withSearchWindow,
+    type ReportWindow,
+} from "./report/backfill";
+import {
+    buildDailySnapshot,
+    diffSnapshots,
+    formatSnapshotDiff,
+    DailySnapshotStore,
+    type DailyAnalysisSnapshot,
+    type SentimentCounts,
+} from "./report/snapshots";
+import {
+    aggregateSnapshots,
+    formatDigest,
+    getDigestRange,
+    type DigestPeriod,
+} from "./report/digest";
+import {
+    generateDailyAnalysis,
+    type DailyAnalysis,
+    type DailyAnalysisResult,
+} from "./report/analysis";
+import {
+    ReportArchive,
+    toArchivedTweet,
+    type ReportArchiveEntry,
+} from "./report/archive";
+import {
+    dailyReportSections,
+    dailyReportTemplate,
+    monthlyReportSections,
+    monthlyReportTemplate,
+    reportLanguageTemplate,
+    reportRepairTemplate,
+    weeklyReportSections,
+    weeklyReportTemplate,
+} from "./report/templates";
+import { renderReportThread } from "./report/thread";
+import { renderReportCard, type ReportCard } from "./report/card";
+import { buildReportEmbed, sendReportToDiscord } from "./report/discord";
+import {
+    computeUserActivity,
+    formatUserActivitySection,
+    summarizeUserActivity,
+    type UserActivity,
+} from "./report/userActivity";
+import {
+    computeAgentActivity,
+    formatAgentActivitySection,
+    type AgentActivity,
+} from "./report/agentActivity";
+import {
+    computeAuthorBaselines,
+    formatEngagement,
+    rankTweetsByEngagement,
+    updateAuthorBaselines,
+    type AuthorBaselines,
+    type TweetEngagement,
+} from "./report/engagement";
+import {
+    analyzeTweetSentiment,
+    countSentiment,
+    createSentimentAnalyzer,
+    formatSentiment,
+    type SentimentAnalyzer,
+    type TweetSentiment,
+} from "./report/sentiment";
+import {
+    clusterTweets,
+    formatTopicClusters,
+    type TopicCluster,
+} from "./report/topics";
+import {
+    buildStory,
+    collapseStories,
+    formatStory,
+    type ReportStory,
+} from "./report/stories";
+import {
+    aggregateSharedLinks,
+    formatSharedLinksSection,
+    type SharedLinks,
+} from "./report/links";
+import {
+    buildCitationSources,
+    formatCitationIssues,
+    removeUnverifiedFigures,
+    verifyReportCitations,
+    type CitationCheck,
+    type CitationSources,
+} from "./report/citations";
+import {
+    checkReportFormat,
+    DEFAULT_REPORT_FORMAT_CONSTRAINTS,
+    appendReportSections,
+    enforceReportFormat,
+    type ReportFormatConstraints,
+} from "./report/format";
+import {
+    buildReportSources,
+    formatSourceBreakdown,
+    REPORT_SOURCE_LABELS,
+    tagTweetSources,
+    type ReportSourceKind,
+} from "./report/sources";
+import {
+    DEFAULT_REPORT_PROFILE,
+    getReportCacheKeyPrefix,
+    resolveReportProfiles,
+    type ReportLanguage,
+    type ReportProfile,
+} from "./report/profiles";
+
+const DAILY_REPORT_RETRY_DELAY = 30 * 60 * 1000; // 30 minutes
+// setTimeout overflows past ~24.8 days, so long waits are split into daily checks
+const MAX_SCHEDULER_DELAY = 24 * 60 * 60 * 1000;
+const MAX_REPORT_PROMPT_TWEETS = 50;
+const MAX_REPORT_TOP_TWEETS = 5;
+const MAX_AGENT_ACTIVITY_TWEETS = 100;
+const MAX_REPORT_ATTEMPTS = 3;
+// As many source tweets as the Discord embed links
+const MAX_PENDING_SOURCE_TWEETS = 10;
+
+/**
+ * Custom templates that do not ask for {{reportLanguage}} themselves get
+ * the language instruction appended.
+ */
+const withReportLanguage = (template: string) =>
+    template.includes("{{reportLanguage}}") ? template : template + reportLanguageTemplate;
+
+type ReportPeriod = "daily" | DigestPeriod;
+
+type ReportDelivery = {
+    /** Title of the Discord embed */
+    title: string;
+    /** Section headings used to split the report */
+    sections: string[];
+    /** Tweets linked from the Discord embed */
+    sourceTweets: Tweet[];
+    /** Targets of the report's profile */
+    targets: DailyReportTarget[];
+    discordChannelIds: string[];
+    /** Other language versions, published after the report (thread delivery) */
+    translations?: string[];
+    /** Chart card attached to the first tweet, rendered when posting */
+    card?: ReportCard;
+};
+
+/**
+ * Payload of a report waiting in the approval queue.
+ */
+type PendingReport = {
+    content: string;
+    delivery: ReportDelivery;
+};
+
+type GeneratedReport = {
+    content: string;
+    /** The report prompt, then one per rewrite */
+    prompts: string[];
+    /** null when citation checks are disabled */
+    citations: CitationCheck | null;
+};
+
+/**
+ * A report in one of its profile's languages.
+ */
+type ReportVersion = {
+    language: ReportLanguage;
+    content: string;
+};
+
+type ReportSchedule = {
+    profile: ReportProfile;
+    period: ReportPeriod;
+    time: string;
+    isScheduledDay: ScheduleDayFilter;
+};
+
+export type ReportRunOptions = {
+    /** Name of the report profile, defaults to the first one */
+    profile?: string;
+    /** Scheduled publish time, used when the report needs approval */
+    scheduledAt?: Date;
+    /** Collection window of a backfill, see backfillDailyReport */
+    window?: ReportWindow;
+    /** Deliver a backfilled report to the profile's targets */
+    publish?: boolean;
+};
+
+export type ReportBackfillOptions = {
+    /** Name of the report profile, defaults to the first one */
+    profile?: string;
+    /** Start of the window, defaults to the profile's lookback before `until` */
+    since?: Date;
+    /** End of the window, defaults to the profile's report time on the date */
+    until?: Date;
+    /** Deliver the report to the profile's targets; by default it is only archived */
+    publish?: boolean;
+};
+
+type DailyReportStats = {
+    totalTweets: number;
+    topHashtags: string[];
+    sentiment: SentimentCounts;
+    tweetSentiment: TweetSentiment[];
+    topTweets: TweetEngagement[];
+    topics: TopicCluster[];
+    sharedLinks: SharedLinks;
+    tweetSources: Map<string, ReportSourceKind>;
+    /** Stories keyed by their lead tweet ID */
+    stories: Map<string, ReportStory>;
+    /** Tweet count per kind of source, for the prompts */
+    sourceBreakdown: string;
+};
 
 export class DailyReportClient {
     client: ClientBase;
@@ -82,12 +262,42 @@ export class DailyReportClient {
     twitterUsername: string;
     private isDryRun: boolean;
     private isProcessing = false;
-
-    constructor(client: ClientBase, runtime: IAgentRuntime) {
+    private profiles: ReportProfile[];
+    private schedules: ReportSchedule[];
+    private snapshotStores = new Map<string, DailySnapshotStore>();
+    private sentimentAnalyzer: SentimentAnalyzer;
+    private approval: PostApprovalQueue;
+    private publisher: TweetPublisher;
+
+    constructor(
+        client: ClientBase,
+        runtime: IAgentRuntime,
+        approval: PostApprovalQueue = new PostApprovalQueue(client, runtime),
+        publisher: TweetPublisher = new TweetPublisher(client, runtime)
+    ) {
         this.client = client;
         this.runtime = runtime;
         this.twitterUsername = this.client.twitterConfig.TWITTER_USERNAME;
         this.isDryRun = this.client.twitterConfig.TWITTER_DRY_RUN;
+        this.profiles = resolveReportProfiles(this.client.twitterConfig);
+        for (const profile of this.profiles) {
+            this.snapshotStores.set(
+                profile.name,
+                new DailySnapshotStore(runtime, this.getCacheKeyPrefix(profile))
+            );
+        }
+        this.schedules = this.profiles.flatMap((profile) =>
+            this.buildSchedules(profile)
+        );
+        this.sentimentAnalyzer = createSentimentAnalyzer(
+            runtime,
+            this.client.twitterConfig.TWITTER_SENTIMENT_ANALYZER
+        );
+        this.approval = approval;
+        this.publisher = publisher;
+        this.approval.onApproved<PendingReport>("report", ({ roomId, payload }) =>
+            this.deliverReport(payload.content, roomId, payload.delivery)
+        );
 
         // Log configuration on initialization
         elizaLogger.log("Twitter Client Configuration:");
@@ -108,6 +318,9 @@ export class DailyReportClient {
                     : "disabled"
             }`
         );
+        for (const profile of this.profiles) {
+            this.logProfile(profile);
+        }
 
         if (this.isDryRun) {
             elizaLogger.log(
@@ -117,160 +330,1071 @@ export class DailyReportClient {
     }
 
     async start() {
-        // const DailyReportLoop = async () => {
-        //     try {
-        //         if (this.shouldGenerateDigest()) {
-        //             await this.runDailyReport();
-        //         }
-        //     } catch (error) {
-        //         elizaLogger.error("Daily Report generation failed:", error);
-        //     }
-            
-            // 每天检查一次
-            // setTimeout(DailyReportLoop, 24 * 60 * 60 * 1000);
-        // }
-
-        elizaLogger.info("------------------------------------start()--DailyReportLoop----------------------------------------------");
-
-        // 初始启动
-        // setTimeout(DailyReportLoop, this.getNextRunTime());
-        await this.runDailyReport();
+        const dailyReportLoop = async () => {
+            let retry = false;
+
+            // Daily first within each profile, so a digest due at the same time includes today's snapshot
+            for (const schedule of this.schedules) {
+                try {
+                    const dueRun = await this.getDueReportRun(schedule);
+                    if (!dueRun) {
+                        continue;
+                    }
+
+                    elizaLogger.log(
+                        `${schedule.period} report "${schedule.profile.name}" for ${dueRun.dateKey} is due (scheduled ${dueRun.scheduledAt.toISOString()})`
+                    );
+                    const options: ReportRunOptions = {
+                        profile: schedule.profile.name,
+                        scheduledAt: dueRun.scheduledAt,
+                    };
+                    const published =
+                        schedule.period === "daily"
+                            ? await this.runDailyReport(dueRun.dateKey, options)
+                            : await this.runDigest(schedule.period, dueRun.dateKey, options);
+                    if (published) {
+                        await this.markReportRun(
+                            schedule.profile,
+                            schedule.period,
+                            dueRun.dateKey
+                        );
+                    } else {
+                        retry = true;
+                    }
+                } catch (error) {
+                    elizaLogger.error(
+                        `${schedule.period} report "${schedule.profile.name}" generation failed:`,
+                        error
+                    );
+                    retry = true;
+                }
+            }
+
+            // Retry a failed run after a short delay, unless the next scheduled run comes first
+            const nextRunDelay = this.getNextRunTime();
+            const delay = retry
+                ? Math.min(DAILY_REPORT_RETRY_DELAY, nextRunDelay)
+                : nextRunDelay;
+
+            setTimeout(() => {
+                dailyReportLoop(); // Set up next iteration
+            }, delay);
+
+            elizaLogger.log(
+                `Next daily report check scheduled in ${Math.round(delay / 60000)} minutes`
+            );
+        };
+
+        dailyReportLoop();
+        this.approval.start();
         elizaLogger.log("Daily report scheduler started");
     }
 
-    private shouldGenerateDigest(): boolean {
+    private logProfile(profile: ReportProfile) {
+        const label =
+            profile.name === DEFAULT_REPORT_PROFILE ? "" : ` [${profile.name}]`;
+
+        if (label) {
+            elizaLogger.log(
+                `- Report Profile${label}: ${[
+                    ...profile.targetUsers.map((username) => `@${username}`),
+                    ...profile.searchQueries.map((query) => `"${query}"`),
+                ].join(", ")}`
+            );
+        }
+        elizaLogger.log(
+            `- Daily Report Time${label}: ${profile.time} (${profile.timeZone})`
+        );
+        elizaLogger.log(
+            `- Daily Report Targets${label}: ${profile.targets.join(", ")}`
+        );
+        elizaLogger.log(
+            `- Weekly Report${label}: ${
+                profile.weekly
+                    ? `${profile.weekly.day} ${profile.weekly.time}`
+                    : "disabled"
+            }`
+        );
+        elizaLogger.log(
+            `- Monthly Report${label}: ${
+                profile.monthly ? `month-end ${profile.monthly.time}` : "disabled"
+            }`
+        );
+        if (profile.languages.length > 1) {
+            elizaLogger.log(
+                `- Report Languages${label}: ${profile.languages
+                    .map(({ name }) => name)
+                    .join(", ")} (${profile.languageDelivery})`
+            );
+        }
+        if (this.requiresApproval(this.getProfileTargets(profile))) {
+            elizaLogger.log(
+                `- Report Approval${label}: ${this.approval.provider}, generated ${this.client.twitterConfig.DAILY_REPORT_APPROVAL_LEAD_MINUTES} minutes ahead`
+            );
+        }
+    }
+
+    private buildSchedules(profile: ReportProfile): ReportSchedule[] {
+        const schedules: ReportSchedule[] = [
+            { profile, period: "daily", time: profile.time, isScheduledDay: everyDay },
+        ];
+
+        if (profile.weekly) {
+            schedules.push({
+                profile,
+                period: "weekly",
+                time: profile.weekly.time,
+                isScheduledDay: onWeekday(profile.weekly.day),
+            });
+        }
 
-        elizaLogger.info("------------------------------------shouldGenerateDigest()------------------------------------------------");
+        if (profile.monthly) {
+            schedules.push({
+                profile,
+                period: "monthly",
+                time: profile.monthly.time,
+                isScheduledDay: onLastDayOfMonth,
+            });
+        }
 
-        const today = new Date().toISOString().split('T')[0];
-        // return today !== this.lastProcessedDate;
-        return true;
+        return schedules;
     }
 
-    private getNextRunTime(): number {
-        const now = new Date();
-        const [targetHour, targetMinute] = this.client.twitterConfig.DAILY_REPORT_TIME.split(':').map(Number);
-        const targetTime = new Date(now);
-        
-        targetTime.setHours(targetHour, targetMinute, 0, 0);
-        
-        if (now > targetTime) {
-            targetTime.setDate(targetTime.getDate() + 1);
+    private getProfile(name?: string): ReportProfile {
+        if (name === undefined) {
+            return this.profiles[0];
         }
-        
-        elizaLogger.info("------------------------------------getNextRunTime()------------------------------------------------");
 
-        return targetTime.getTime() - now.getTime();
+        const profile = this.profiles.find((profile) => profile.name === name);
+        if (!profile) {
+            throw new Error(`Unknown report profile "${name}"`);
+        }
+        return profile;
     }
 
-    async runDailyReport() {
-        if (this.isProcessing || !this.client.twitterConfig.TWITTER_TARGET_USERS) {
-            return;
+    private getCacheKeyPrefix(profile: ReportProfile): string {
+        return getReportCacheKeyPrefix(this.twitterUsername, profile.name);
+    }
+
+    private getSnapshotStore(profile: ReportProfile): DailySnapshotStore {
+        return this.snapshotStores.get(profile.name);
+    }
+
+    /**
+     * Embed title of a report; named profiles add their name.
+     */
+    private getReportTitle(profile: ReportProfile, title: string): string {
+        return profile.name === DEFAULT_REPORT_PROFILE
+            ? title
+            : `${title} · ${profile.name}`;
+    }
+
+    /**
+     * Every target a profile's reports are delivered to, including the
+     * targets of separately delivered languages.
+     */
+    private getProfileTargets(profile: ReportProfile): DailyReportTarget[] {
+        return profile.languageDelivery === "separate"
+            ? [...new Set(profile.languages.flatMap((language) => language.targets))]
+            : profile.targets;
+    }
+
+    /**
+     * Reports sent to Twitter go through the post approval workflow, unless
+     * nothing is actually posted (dry run).
+     */
+    private requiresApproval(targets: DailyReportTarget[]): boolean {
+        return (
+            this.approval.isEnabled &&
+            !this.isDryRun &&
+            targets.includes("twitter")
+        );
+    }
+
+    /**
+     * How long (ms) before its scheduled time a report is generated, so it
+     * can be approved in time.
+     */
+    private getApprovalLeadTime(profile: ReportProfile): number {
+        return this.requiresApproval(this.getProfileTargets(profile))
+            ? this.client.twitterConfig.DAILY_REPORT_APPROVAL_LEAD_MINUTES * 60 * 1000
+            : 0;
+    }
+
+    /**
+     * Returns the scheduled run that should be generated now, if any. This is
+     * the most recent scheduled run unless it was already recorded as done,
+     * so a run missed during downtime is caught up on the next start.
+     * Reports that need approval are due their lead time early.
+     */
+    private async getDueReportRun(
+        schedule: ReportSchedule
+    ): Promise<ScheduledRun | null> {
+        const latestRun = getLatestScheduledRun(
+            new Date(Date.now() + this.getApprovalLeadTime(schedule.profile)),
+            schedule.time,
+            schedule.profile.timeZone,
+            schedule.isScheduledDay
+        );
+
+        const lastRun = await this.runtime.cacheManager.get<{
+            date: string;
+            timestamp: number;
+        }>(this.getLastRunCacheKey(schedule.profile, schedule.period));
+
+        if (lastRun?.date && lastRun.date >= latestRun.dateKey) {
+            return null;
+        }
+
+        return latestRun;
+    }
+
+    private async markReportRun(
+        profile: ReportProfile,
+        period: ReportPeriod,
+        dateKey: string
+    ) {
+        await this.runtime.cacheManager.set(this.getLastRunCacheKey(profile, period), {
+            date: dateKey,
+            timestamp: Date.now(),
+        });
+    }
+
+    private getLastRunCacheKey(profile: ReportProfile, period: ReportPeriod): string {
+        return `${this.getCacheKeyPrefix(profile)}/${period}Report/lastRun`;
+    }
+
+    private getNextRunTime(): number {
+        // When the next run has to be generated, lead time included
+        const nextRunAt = Math.min(
+            ...this.schedules.map((schedule) => {
+                const leadTime = this.getApprovalLeadTime(schedule.profile);
+                return (
+                    getNextScheduledRun(
+                        new Date(Date.now() + leadTime),
+                        schedule.time,
+                        schedule.profile.timeZone,
+                        schedule.isScheduledDay
+                    ).scheduledAt.getTime() - leadTime
+                );
+            })
+        );
+        return Math.min(
+            Math.max(nextRunAt - Date.now(), 1000),
+            MAX_SCHEDULER_DELAY
+        );
+    }
+
+    /**
+     * Collects, analyzes and publishes the daily report of a profile for
+     * `dateKey` (defaults to today in the profile's timezone). When the
+     * report needs approval, it is published at `scheduledAt` once approved.
+     * With a `window`, the report is a backfill: see backfillDailyReport.
+     * Returns true when the report was published or queued for approval.
+     */
+    async runDailyReport(
+        dateKey?: string,
+        { profile: profileName, scheduledAt, window, publish }: ReportRunOptions = {}
+    ): Promise<boolean> {
+        const profile = this.getProfile(profileName);
+        dateKey ??= toDateKey(new Date(), profile.timeZone);
+
+        if (this.isProcessing) {
+            return false;
         }
 
-        const roomId = stringToUuid( "twitter_dailyreport_room-" + this.twitterUsername );
+        const roomId = profile.roomId;
+        const snapshots = this.getSnapshotStore(profile);
 
         this.isProcessing = true;
         try {
             // 1. 收集目标用户推文
-            const tweetsByUser = await this.collectTargetUsersTweets();
+            const tweets = window
+                ? await this.collectBackfillTweets(profile, window)
+                : await this.collectReportTweets(profile);
+            // Near-duplicates and quote/retweet chains are analyzed as one story
+            const stories = this.groupStories(tweets);
+            const storyTweets = stories.map((story) => story.tweet);
+            const baselines = await this.getEngagementBaselines(profile);
+            // Each story is normalized by the tweets in it, not its summed engagement
+            const tweetsById = new Map(tweets.map((tweet) => [tweet.id, tweet]));
+            const rankedTweets = this.rankByEngagement(
+                storyTweets,
+                baselines,
+                new Map(
+                    stories.map((story) => [
+                        story.id,
+                        story.tweetIds.map((id) => tweetsById.get(id)),
+                    ])
+                )
+            );
+            const stats = await this.computeReportStats(
+                profile,
+                tweets,
+                rankedTweets,
+                stories
+            );
+            // Keep the tweets around for the weekly/monthly digests and backfills
+            await Promise.all(tweets.map((tweet) => this.client.cacheTweet(tweet)));
+            await this.rememberReportTweets(profile, tweets);
 
             // 2. 分析生成摘要
-            const summary = await this.generateTrendSummary(tweetsByUser, roomId);
-            
-            // 3. 生成日报推文
-            const reportContent = await this.generateReportContent(summary, roomId);
+            const { analysis, prompts: analysisPrompts } =
+                await this.generateTrendSummary(stats, storyTweets, roomId, profile);
+
+            const userActivity = await this.getUserActivity(profile, tweets, roomId);
+            const agentActivity = this.client.twitterConfig.DAILY_REPORT_AGENT_ACTIVITY
+                ? await this.getAgentActivity(profile, window)
+                : null;
+
+            // 3. Store today's analysis and compare it with the previous report
+            const snapshot = buildDailySnapshot(
+                dateKey,
+                stats,
+                analysis,
+                tweets.map((tweet) => tweet.id),
+                userActivity
+            );
+            const previousSnapshot = await snapshots.getLatestBefore(dateKey);
+            const changes = diffSnapshots(previousSnapshot, snapshot);
+            await snapshots.save(snapshot);
+
+            // 4. 生成日报推文, once per language from the same analysis
+            const config = this.client.twitterConfig;
+            // A single tweet report has no room for the data sections
+            const dataSections = config.DAILY_REPORT_FORMAT === "tweet" ? [] : [
+                ...(config.DAILY_REPORT_USER_ACTIVITY && userActivity.length
+                    ? [formatUserActivitySection(userActivity)]
+                    : []),
+                ...(config.DAILY_REPORT_SHARED_LINKS
+                    ? [formatSharedLinksSection(stats.sharedLinks)]
+                    : []),
+                ...(agentActivity ? [formatAgentActivitySection(agentActivity)] : []),
+            ];
+            const reports: (GeneratedReport & ReportVersion)[] = [];
+            for (const language of profile.languages) {
+                const report = await this.generateReportContent(
+                    analysis,
+                    formatSnapshotDiff(changes),
+                    tweets,
+                    storyTweets,
+                    stats,
+                    roomId,
+                    profile,
+                    language.name,
+                    dataSections
+                );
+                reports.push({ ...report, language });
+            }
+
+            // 5. 发布推文
+            if (window && !publish) {
+                elizaLogger.log(
+                    `Backfilled daily report "${profile.name}" for ${dateKey}, not published:\n${reports
+                        .map(({ content }) => content)
+                        .join("\n\n")}`
+                );
+            } else {
+                const published = await this.publishReportVersions(
+                    reports,
+                    profile,
+                    {
+                        title: this.getReportTitle(profile, `📊 Daily Report ${dateKey}`),
+                        sections: dailyReportSections,
+                        sourceTweets: this.rankTweets(rankedTweets, analysis.notable_tweets),
+                        card: profile.card
+                            ? {
+                                  data: {
+                                      title: this.getReportTitle(profile, "Daily Report"),
+                                      subtitle: `${dateKey} · ${stats.totalTweets} tweets`,
+                                      themes: snapshot.themes,
+                                      sentiment: stats.sentiment,
+                                  },
+                                  style: profile.card,
+                              }
+                            : undefined,
+                    },
+                    scheduledAt
+                );
 
-            // 4. 发布推文
-            await this.postDailyReport(reportContent, roomId);
+                elizaLogger.log(
+                    `Daily report "${profile.name}" ${published ? "published successfully" : "queued for approval"}`
+                );
+            }
+
+            // A backfill covers tweets the baselines may already include
+            if (!window) {
+                await this.updateEngagementBaselines(profile, baselines, tweets);
+            }
 
-            elizaLogger.log("Daily report published successfully");
+            const multilingual = reports.length > 1;
+            const citationChecks = reports
+                .map(({ citations }) => citations)
+                .filter(Boolean);
+            await this.archiveReport(profile, {
+                date: dateKey,
+                generatedAt: new Date().toISOString(),
+                report: reports[0].content,
+                translations: reports.slice(1).map(({ language, content }) => ({
+                    language: language.name,
+                    report: content,
+                })),
+                analysis,
+                stats: {
+                    totalTweets: stats.totalTweets,
+                    topHashtags: stats.topHashtags,
+                    sentiment: stats.sentiment,
+                },
+                userActivity,
+                sharedLinks: stats.sharedLinks,
+                stories: stories
+                    .filter((story) => story.tweetIds.length > 1)
+                    .map(({ id, tweetIds, authors, counts }) => ({
+                        id,
+                        tweetIds,
+                        authors,
+                        counts,
+                    })),
+                tweets: tweets.map((tweet, index) =>
+                    toArchivedTweet(
+                        tweet,
+                        stats.tweetSentiment[index],
+                        stats.tweetSources.get(tweet.id)
+                    )
+                ),
+                prompts: [
+                    ...analysisPrompts.map((text, index) => ({
+                        name: index === 0 ? "analysis" : `analysis repair ${index}`,
+                        text,
+                    })),
+                    ...reports.flatMap(({ language, prompts }) =>
+                        prompts.map((text, index) => ({
+                            name: `${index === 0 ? "report" : `report repair ${index}`}${multilingual ? ` (${language.name})` : ""}`,
+                            text,
+                        }))
+                    ),
+                ],
+                citations: citationChecks.length
+                    ? {
+                          unknownCitations: citationChecks.flatMap(
+                              (check) => check.unknownCitations
+                          ),
+                          unverifiedFigures: citationChecks.flatMap(
+                              (check) => check.unverifiedFigures
+                          ),
+                      }
+                    : null,
+            });
+            return true;
         } catch (error) {
-            elizaLogger.error("Failed to generate daily report:", error);
+            elizaLogger.error(`Failed to generate daily report "${profile.name}":`, error);
+            return false;
         } finally {
             this.isProcessing = false;
         }
     }
 
-    private async collectTargetUsersTweets(): Promise<Tweet[]> {
-        // Create a map to store tweets by user
-        const tweetsByUser: Tweet[] = [];
-
-        elizaLogger.info("------------------------------------collectTargetUsersTweets()------------------------------------------------");
-
-
-        if (this.client.twitterConfig.TWITTER_TARGET_USERS.length) {
-            const TARGET_USERS = this.client.twitterConfig.TWITTER_TARGET_USERS;
-
-            elizaLogger.log("Processing target users:", TARGET_USERS);
-
-            if (TARGET_USERS.length > 0) {
-
-                // Fetch tweets from all target users
-                for (const username of TARGET_USERS) {
-                    try {
-                        const userTweets = (
-                            await this.client.twitterClient.fetchSearchTweets(
-                                `from:${username}`,
-                                3,
-                                SearchMode.Latest
-                            )
-                        ).tweets;
-
-                        // Filter for recent tweets
-                        const validTweets = userTweets.filter((tweet) => {
-                            const isRecent = 
-                                Date.now() - tweet.timestamp < 24 * 60 * 60;
-                        
-                            elizaLogger.log(`Tweet ${tweet.id} checks:`, {
-                                isRecent,
-                                isRetweet: tweet.isRetweet,
-                            });
-                            return (
-                                !tweet.isRetweet &&
-                                isRecent
-                            );
-                        });
-
-                        if (validTweets.length > 0) {
-                            tweetsByUser.push(...validTweets);
-                            elizaLogger.log(
-                                `Found ${validTweets.length} valid tweets from ${username}`
-                            );
-                        }
-                        tweetsByUser.push(...userTweets);
-
-                        await wait(Math.random() * 1000 + 2500); // 防止速率限制
-        
-                    } catch (error) {
-                        elizaLogger.error(
-                            `Error fetching tweets for ${username}:`,
-                            error
-                        );
-                        continue;                        
-                    }
+    /**
+     * Regenerates the daily report of a past date, e.g. after a failed run
+     * or a template change. Tweets of the window are taken from the earlier
+     * report runs' snapshots and memories when there are any, and searched
+     * with since:/until: otherwise. The snapshot and archive of the date
+     * are replaced; the report is only delivered when `publish` is set.
+     * Returns false when the report could not be generated.
+     */
+    async backfillDailyReport(
+        dateKey: string,
+        { profile: profileName, since, until, publish = false }: ReportBackfillOptions = {}
+    ): Promise<boolean> {
+        const profile = this.getProfile(profileName);
+        const defaultWindow = getReportWindow(
+            dateKey,
+            profile.time,
+            profile.timeZone,
+            profile.lookbackHours
+        );
+        const window: ReportWindow = {
+            since:
+                since ??
+                (until
+                    ? new Date(until.getTime() - profile.lookbackHours * 60 * 60 * 1000)
+                    : defaultWindow.since),
+            until: until ?? defaultWindow.until,
+        };
+
+        if (window.since >= window.until) {
+            throw new Error(
+                `Invalid backfill window ${window.since.toISOString()} - ${window.until.toISOString()}`
+            );
+        }
+
+        elizaLogger.log(
+            `Backfilling daily report "${profile.name}" for ${dateKey} (${window.since.toISOString()} - ${window.until.toISOString()})`
+        );
+        return this.runDailyReport(dateKey, {
+            profile: profile.name,
+            window,
+            publish,
+        });
+    }
+
+    /**
+     * Per-target-user breakdown of the collected tweets. The one-line model
+     * summaries are only requested when DAILY_REPORT_USER_ACTIVITY is on.
+     * Profiles without target users have no breakdown.
+     */
+    private async getUserActivity(
+        profile: ReportProfile,
+        tweets: Tweet[],
+        roomId: UUID
+    ): Promise<UserActivity[]> {
+        const config = this.client.twitterConfig;
+        const activity = computeUserActivity(
+            profile.targetUsers,
+            tweets,
+            config.DAILY_REPORT_ENGAGEMENT_WEIGHTS
+        );
+
+        if (!config.DAILY_REPORT_USER_ACTIVITY || !activity.length) {
+            return activity;
+        }
+
+        const state = await this.runtime.composeState(
+            {
+                userId: this.runtime.agentId,
+                roomId,
+                agentId: this.runtime.agentId,
+                content: { text: "" },
+            },
+            {
+                twitterUserName: this.twitterUsername,
+            }
+        );
+
+        return summarizeUserActivity(this.runtime, state, activity, tweets);
+    }
+
+    /**
+     * What the agent itself did during the report window: its tweets and
+     * replies and the timeline actions it took, from the memories of every
+     * room it is in, the state of the approval queue, and its most engaged
+     * tweet, from a search of its own tweets. Returns null when the
+     * activity cannot be gathered, so the report goes out without it.
+     */
+    private async getAgentActivity(
+        profile: ReportProfile,
+        window?: ReportWindow
+    ): Promise<AgentActivity | null> {
+        const until = window?.until ?? new Date();
+        const since =
+            window?.since ??
+            new Date(until.getTime() - profile.lookbackHours * 60 * 60 * 1000);
+        const query = `from:${this.twitterUsername}`;
+
+        try {
+            const roomIds = await this.runtime.databaseAdapter.getRoomsForParticipant(
+                this.runtime.agentId
+            );
+            const memories = await this.runtime.messageManager.getMemoriesByRoomIds({
+                roomIds,
+            });
+            const ownTweets = await collectTweetsInWindow(
+                this.client,
+                window ? withSearchWindow(query, window) : query,
+                {
+                    since,
+                    until,
+                    maxTweets: MAX_AGENT_ACTIVITY_TWEETS,
+                    includeQuotes: true,
                 }
-            } else {
-                elizaLogger.log( "No target users configured");
+            );
+
+            return computeAgentActivity({
+                agentId: this.runtime.agentId,
+                window: { since, until },
+                memories,
+                pendingPosts: await this.approval.getPendingPosts(),
+                ownTweets,
+                weights: this.client.twitterConfig.DAILY_REPORT_ENGAGEMENT_WEIGHTS,
+            });
+        } catch (error) {
+            elizaLogger.error("Failed to gather the agent's own activity:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Writes the report to DAILY_REPORT_ARCHIVE_DIR, if configured, in a
+     * subdirectory per named profile. The report is already published at
+     * this point, so failures are only logged.
+     */
+    private async archiveReport(profile: ReportProfile, entry: ReportArchiveEntry) {
+        const config = this.client.twitterConfig;
+        if (!config.DAILY_REPORT_ARCHIVE_DIR) {
+            return;
+        }
+
+        try {
+            const archive = new ReportArchive(
+                profile.name === DEFAULT_REPORT_PROFILE
+                    ? config.DAILY_REPORT_ARCHIVE_DIR
+                    : path.join(config.DAILY_REPORT_ARCHIVE_DIR, profile.name),
+                config.DAILY_REPORT_ARCHIVE_FORMATS
+            );
+            await archive.write(entry);
+        } catch (error) {
+            elizaLogger.error(`Failed to archive daily report ${entry.date}:`, error);
+        }
+    }
+
+    /**
+     * Aggregates a profile's stored daily analyses of the period ending on
+     * `dateKey` and publishes the weekly or monthly digest through the
+     * profile's targets. Periods without any stored daily report are skipped.
+     * Returns false when the digest failed and should be retried.
+     */
+    async runDigest(
+        period: DigestPeriod,
+        dateKey?: string,
+        { profile: profileName, scheduledAt }: ReportRunOptions = {}
+    ): Promise<boolean> {
+        const profile = this.getProfile(profileName);
+        dateKey ??= toDateKey(new Date(), profile.timeZone);
+
+        if (this.isProcessing) {
+            return false;
+        }
+
+        const roomId = profile.roomId;
+
+        this.isProcessing = true;
+        try {
+            const { from, to } = getDigestRange(period, dateKey);
+            const snapshots = await this.getSnapshotStore(profile).getRange(from, to);
+
+            if (!snapshots.length) {
+                elizaLogger.log(
+                    `No daily reports stored between ${from} and ${to}, skipping ${period} digest`
+                );
+                return true;
             }
+
+            const digest = aggregateSnapshots(period, from, to, snapshots);
+            const tweets = await this.loadDigestTweets(
+                profile,
+                digest.notableTweetIds,
+                digest.tweetIds
+            );
+
+            const versions: ReportVersion[] = [];
+            for (const language of profile.languages) {
+                versions.push({
+                    language,
+                    content: await this.generateDigestContent(
+                        period,
+                        from,
+                        to,
+                        formatDigest(digest),
+                        tweets,
+                        roomId,
+                        profile,
+                        language.name
+                    ),
+                });
+            }
+
+            const published = await this.publishReportVersions(
+                versions,
+                profile,
+                {
+                    title: this.getReportTitle(
+                        profile,
+                        `${period === "weekly" ? "🗓️ Weekly Recap" : "📅 Monthly Recap"} ${from} - ${to}`
+                    ),
+                    sections:
+                        period === "weekly" ? weeklyReportSections : monthlyReportSections,
+                    sourceTweets: tweets,
+                },
+                scheduledAt
+            );
+
+            elizaLogger.log(
+                `${period} digest "${profile.name}" for ${from} - ${to} ${published ? "published successfully" : "queued for approval"}`
+            );
+            return true;
+        } catch (error) {
+            elizaLogger.error(`Failed to generate ${period} digest "${profile.name}":`, error);
+            return false;
+        } finally {
+            this.isProcessing = false;
         }
+    }
 
-        return tweetsByUser;
+    /**
+     * Loads the period's tweets from the tweet cache, notable tweets
+     * first and the rest by engagement.
+     */
+    private async loadDigestTweets(
+        profile: ReportProfile,
+        notableTweetIds: string[],
+        tweetIds: string[]
+    ): Promise<Tweet[]> {
+        const ids = [...new Set([...notableTweetIds, ...tweetIds])];
+        const tweets = (
+            await Promise.all(ids.map((id) => this.client.getCachedTweet(id)))
+        ).filter(Boolean);
+
+        const rankedTweets = this.rankByEngagement(
+            tweets,
+            await this.getEngagementBaselines(profile)
+        );
+        return this.rankTweets(rankedTweets, notableTweetIds).slice(
+            0,
+            MAX_REPORT_PROMPT_TWEETS
+        );
     }
 
-    private async generateTrendSummary(tweets: Tweet[], roomId: UUID): Promise<string> {
+    /**
+     * Orders engagement-ranked tweets with the notable ones first.
+     */
+    private rankTweets(
+        rankedTweets: TweetEngagement[],
+        notableTweetIds: string[]
+    ): Tweet[] {
+        const notable = new Set(notableTweetIds);
+
+        return rankedTweets
+            .map(({ tweet }) => tweet)
+            .sort((a, b) => Number(notable.has(b.id)) - Number(notable.has(a.id)));
+    }
 
-        elizaLogger.info("------------------------------------generateTrendSummary(1)------------------------------------------------");
+    /**
+     * Ranks tweets by the configured engagement weights, relative to each
+     * author's baseline when DAILY_REPORT_ENGAGEMENT_NORMALIZE is on.
+     */
+    private rankByEngagement(
+        tweets: Tweet[],
+        baselines: AuthorBaselines,
+        members?: Map<string, Tweet[]>
+    ): TweetEngagement[] {
+        const config = this.client.twitterConfig;
+        return rankTweetsByEngagement(tweets, {
+            weights: config.DAILY_REPORT_ENGAGEMENT_WEIGHTS,
+            baselines,
+            normalizeByAuthor: config.DAILY_REPORT_ENGAGEMENT_NORMALIZE,
+            members,
+        });
+    }
+
+    private getEngagementBaselinesCacheKey(profile: ReportProfile): string {
+        return `${this.getCacheKeyPrefix(profile)}/engagementBaselines`;
+    }
+
+    private async getEngagementBaselines(
+        profile: ReportProfile
+    ): Promise<AuthorBaselines> {
+        return (
+            (await this.runtime.cacheManager.get<AuthorBaselines>(
+                this.getEngagementBaselinesCacheKey(profile)
+            )) ?? {}
+        );
+    }
 
-        // 基础分析
-        const analysis = {
+    /**
+     * Folds the engagement of the reported tweets into the stored author
+     * baselines. Runs after publishing, so failures are only logged.
+     */
+    private async updateEngagementBaselines(
+        profile: ReportProfile,
+        baselines: AuthorBaselines,
+        tweets: Tweet[]
+    ) {
+        try {
+            await this.runtime.cacheManager.set(
+                this.getEngagementBaselinesCacheKey(profile),
+                updateAuthorBaselines(
+                    baselines,
+                    computeAuthorBaselines(
+                        tweets,
+                        this.client.twitterConfig.DAILY_REPORT_ENGAGEMENT_WEIGHTS
+                    )
+                )
+            );
+        } catch (error) {
+            elizaLogger.error("Failed to update engagement baselines:", error);
+        }
+    }
+
+    /**
+     * Stored analysis snapshot of a profile (defaults to the first one) for
+     * a report date (YYYY-MM-DD).
+     */
+    async getSnapshot(
+        dateKey: string,
+        profile?: string
+    ): Promise<DailyAnalysisSnapshot | null> {
+        return this.getSnapshotStore(this.getProfile(profile)).get(dateKey);
+    }
+
+    /**
+     * Stored analysis snapshots of a profile between two report dates
+     * (inclusive), oldest first.
+     */
+    async getSnapshots(
+        from: string,
+        to: string,
+        profile?: string
+    ): Promise<DailyAnalysisSnapshot[]> {
+        return this.getSnapshotStore(this.getProfile(profile)).getRange(from, to);
+    }
+
+    /**
+     * Collects every tweet posted by the profile's target users or
+     * matching its search queries within the profile's lookback window,
+     * deduplicated by tweet ID. A past `window` is searched with the
+     * since:/until: operators.
+     */
+    private async collectReportTweets(
+        profile: ReportProfile,
+        window?: ReportWindow
+    ): Promise<Tweet[]> {
+        const config = this.client.twitterConfig;
+        const sources = buildReportSources(profile.targetUsers, profile.searchQueries);
+
+        if (!sources.length) {
+            elizaLogger.log("No target users or search queries configured");
+            return [];
+        }
+
+        elizaLogger.log(
+            `Processing report "${profile.name}" sources:`,
+            sources.map((source) => source.label)
+        );
+
+        const until = window?.until ?? new Date();
+        const since =
+            window?.since ??
+            new Date(until.getTime() - profile.lookbackHours * 60 * 60 * 1000);
+        const period = window
+            ? `between ${since.toISOString()} and ${until.toISOString()}`
+            : `in the last ${profile.lookbackHours}h`;
+        const collectedTweets: Tweet[] = [];
+
+        for (const source of sources) {
+            try {
+                const sourceTweets = await collectTweetsInWindow(
+                    this.client,
+                    window ? withSearchWindow(source.query, window) : source.query,
+                    {
+                        since,
+                        until,
+                        maxTweets:
+                            source.kind === "account"
+                                ? config.DAILY_REPORT_TWEETS_PER_USER
+                                : config.DAILY_REPORT_TWEETS_PER_QUERY,
+                        includeReplies: config.DAILY_REPORT_INCLUDE_REPLIES,
+                        includeQuotes: config.DAILY_REPORT_INCLUDE_QUOTES,
+                    }
+                );
+
+                collectedTweets.push(...sourceTweets);
+                elizaLogger.log(
+                    `Found ${sourceTweets.length} tweets for ${source.label} ${period}`
+                );
+
+                await wait(2500, 3500); // avoid rate limiting between searches
+            } catch (error) {
+                elizaLogger.error(
+                    `Error fetching tweets for ${source.label}:`,
+                    error
+                );
+            }
+        }
+
+        return dedupeTweets(collectedTweets);
+    }
+
+    /**
+     * Tweets of a past window for a backfill: the ones stored by earlier
+     * report runs of the profile, or a search when none were stored.
+     */
+    private async collectBackfillTweets(
+        profile: ReportProfile,
+        window: ReportWindow
+    ): Promise<Tweet[]> {
+        const storedTweets = await this.loadStoredTweets(profile, window);
+        if (storedTweets.length) {
+            elizaLogger.log(
+                `Using ${storedTweets.length} stored tweets for report "${profile.name}"`
+            );
+            return storedTweets;
+        }
+
+        elizaLogger.log(`No stored tweets for report "${profile.name}", searching`);
+        return this.collectReportTweets(profile, window);
+    }
+
+    /**
+     * Stored tweets of a profile within the window: those listed by the
+     * snapshots of the dates it spans, from the tweet cache, and the source
+     * tweets remembered in the profile's room. Remembered tweets that left
+     * the cache are rebuilt from their memory, without engagement metrics.
+     */
+    private async loadStoredTweets(
+        profile: ReportProfile,
+        window: ReportWindow
+    ): Promise<Tweet[]> {
+        // A report covers the hours before its time, so it can be dated a day later
+        const snapshots = await this.getSnapshotStore(profile).getRange(
+            toDateKey(window.since, profile.timeZone),
+            shiftDateKey(toDateKey(window.until, profile.timeZone), 1)
+        );
+        const snapshotTweets = await Promise.all(
+            snapshots
+                .flatMap((snapshot) => snapshot.tweetIds)
+                .map((id) => this.client.getCachedTweet(id))
+        );
+
+        const config = this.client.twitterConfig;
+        const lookbacks = Math.ceil(
+            (window.until.getTime() - window.since.getTime()) /
+                (profile.lookbackHours * 60 * 60 * 1000)
+        );
+        const memories = await this.runtime.messageManager.getMemories({
+            roomId: profile.roomId,
+            start: window.since.getTime(),
+            end: window.until.getTime(),
+            // As many tweets as the report runs of the window can collect
+            count:
+                lookbacks *
+                (profile.targetUsers.length * config.DAILY_REPORT_TWEETS_PER_USER +
+                    profile.searchQueries.length * config.DAILY_REPORT_TWEETS_PER_QUERY),
+            unique: false,
+        });
+        const rememberedTweets = await Promise.all(
+            memories
+                // The room also holds the published reports
+                .filter((memory) => memory.userId !== this.runtime.agentId)
+                .map(async (memory) => {
+                    const tweet = tweetFromMemory(memory);
+                    return tweet && ((await this.client.getCachedTweet(tweet.id)) ?? tweet);
+                })
+        );
+
+        return dedupeTweets(
+            [...snapshotTweets, ...rememberedTweets].filter(
+                (tweet) => tweet && isInWindow(tweet, window)
+            )
+        ).sort((a, b) => (getTweetTime(b) ?? 0) - (getTweetTime(a) ?? 0));
+    }
+
+    /**
+     * Stores the report's source tweets as memories of the profile's room,
+     * so later backfills find them after the tweet cache dropped them.
+     * Only a convenience for backfills, so failures are only logged.
+     */
+    private async rememberReportTweets(profile: ReportProfile, tweets: Tweet[]) {
+        const roomId = profile.roomId;
+        try {
+            const authors = new Set<string>();
+
+            for (const tweet of tweets) {
+                const memoryId = stringToUuid(`${tweet.id}-${roomId}`);
+                if (await this.runtime.messageManager.getMemoryById(memoryId)) {
+                    continue;
+                }
+
+                const userId = stringToUuid(tweet.userId ?? tweet.username);
+                if (!authors.has(userId)) {
+                    await this.runtime.ensureConnection(
+                        userId,
+                        roomId,
+                        tweet.username,
+                        tweet.name,
+                        "twitter"
+                    );
+                    authors.add(userId);
+                }
+
+                await this.runtime.messageManager.createMemory({
+                    id: memoryId,
+                    userId,
+                    agentId: this.runtime.agentId,
+                    content: {
+                        text: tweet.text ?? "",
+                        url: tweet.permanentUrl,
+                        source: "twitter",
+                    },
+                    roomId,
+                    embedding: getEmbeddingZeroVector(),
+                    createdAt: getTweetTime(tweet),
+                });
+            }
+        } catch (error) {
+            elizaLogger.error(`Failed to store the tweets of report "${profile.name}":`, error);
+        }
+    }
+
+    /**
+     * Groups the tweets into stories, or one story per tweet when
+     * DAILY_REPORT_COLLAPSE_DUPLICATES is off.
+     */
+    private groupStories(tweets: Tweet[]): ReportStory[] {
+        const config = this.client.twitterConfig;
+        const weights = config.DAILY_REPORT_ENGAGEMENT_WEIGHTS;
+        const stories = config.DAILY_REPORT_COLLAPSE_DUPLICATES
+            ? collapseStories(tweets, {
+                  similarity: config.DAILY_REPORT_DUPLICATE_SIMILARITY / 100,
+                  weights,
+              })
+            : tweets.map((tweet) => buildStory([tweet], weights));
+
+        if (stories.length < tweets.length) {
+            elizaLogger.log(
+                `Collapsed ${tweets.length} tweets into ${stories.length} stories`
+            );
+        }
+        return stories;
+    }
+
+    private async computeReportStats(
+        profile: ReportProfile,
+        tweets: Tweet[],
+        rankedTweets: TweetEngagement[],
+        stories: ReportStory[]
+    ): Promise<DailyReportStats> {
+        const tweetSentiment = await analyzeTweetSentiment(
+            this.sentimentAnalyzer,
+            tweets
+        );
+        const tweetSources = tagTweetSources(tweets, profile.targetUsers);
+
+        return {
             totalTweets: tweets.length,
             topHashtags: this.getTopHashtags(tweets),
-            sentiment: this.analyzeSentiment(tweets),
-            mostEngagedTweet: this.findMostEngagedTweet(tweets)
+            sentiment: countSentiment(tweetSentiment),
+            tweetSentiment,
+            topTweets: rankedTweets.slice(0, MAX_REPORT_TOP_TWEETS),
+            // The most engaged story seeds the first cluster
+            topics: clusterTweets(rankedTweets.map(({ tweet }) => tweet)),
+            sharedLinks: aggregateSharedLinks(tweets),
+            tweetSources,
+            stories: new Map(stories.map((story) => [story.id, story])),
+            sourceBreakdown: formatSourceBreakdown(
+                buildReportSources(profile.targetUsers, profile.searchQueries),
+                tweetSources
+            ),
         };
+    }
 
-        elizaLogger.info("------------------------------------generateTrendSummary(2)------------------------------------------------");
+    private async generateTrendSummary(
+        analysis: DailyReportStats,
+        tweets: Tweet[],
+        roomId: UUID,
+        profile: ReportProfile
+    ): Promise<DailyAnalysisResult> {
+
+        elizaLogger.info("------------------------------------generateTrendSummary(1)------------------------------------------------");
 
         // 用AI模型生成洞察
         const state = await this.runtime.composeState(
@@ -278,39 +1402,65 @@ export class DailyReportClient {
                 userId: this.runtime.agentId,
                 roomId,
                 agentId: this.runtime.agentId,
-                content: { text: JSON.stringify(analysis, null, 2), },
+                content: {
+                    text: JSON.stringify(
+                        {
+                            totalTweets: analysis.totalTweets,
+                            topHashtags: analysis.topHashtags,
+                            sentiment: analysis.sentiment,
+                        },
+                        null,
+                        2
+                    ),
+                },
             },
             {
                 twitterUserName: this.twitterUsername,
                 twitterCount: analysis.totalTweets,
-                formattedTweets: analysis.mostEngagedTweet 
-                    ? `Most Popular Tweet:\n"${analysis.mostEngagedTweet.text}"\n`
-                      + `Likes: ${analysis.mostEngagedTweet.likes} | `
-                      + `Retweets: ${analysis.mostEngagedTweet.retweets}`
-                    : "No notable tweets today"
+                formattedTweets: analysis.topTweets.length
+                    ? `Most Engaged Tweets:\n${this.formatPromptTweets(
+                          analysis.topTweets.map(({ tweet }) => tweet),
+                          analysis.tweetSentiment,
+                          analysis.tweetSources,
+                          analysis.stories
+                      )}`
+                    : "No notable tweets today",
+                topicClusters: formatTopicClusters(analysis.topics, tweets),
+                sourceBreakdown: analysis.sourceBreakdown,
             }
         );
 
-        elizaLogger.info("------------------------------------generateTrendSummary(3)------------------------------------------------");
+        elizaLogger.info("------------------------------------generateTrendSummary(2)------------------------------------------------");
 
-        const context = composeContext({
+        return generateDailyAnalysis(
+            this.runtime,
             state,
-            template: dailyAnalysisTemplate
-        });
-
-        elizaLogger.info("------------------------------------generateTrendSummary(4)------------------------------------------------");
-
-        return generateText({
-            runtime: this.runtime,
-            context,
-            modelClass: ModelClass.LARGE
-        }).then(cleanJsonResponse);
+            undefined,
+            profile.templates.analysis
+        );
     }
 
-    private async generateReportContent(summary: string, roomId: UUID): Promise<string> {
+    private async generateReportContent(
+        analysis: DailyAnalysis,
+        changesSinceYesterday: string,
+        tweets: Tweet[],
+        storyTweets: Tweet[],
+        stats: DailyReportStats,
+        roomId: UUID,
+        profile: ReportProfile,
+        language: string,
+        dataSections: string[] = []
+    ): Promise<GeneratedReport> {
 
         elizaLogger.info("------------------------------------generateReportContent(1)------------------------------------------------");
 
+        const summary = JSON.stringify(analysis, null, 2);
+        const formattedTweets = this.formatPromptTweets(
+            storyTweets,
+            stats.tweetSentiment,
+            stats.tweetSources,
+            stats.stories
+        );
         const state = await this.runtime.composeState(
             {
                 userId: this.runtime.agentId,
@@ -318,265 +1468,470 @@ export class DailyReportClient {
                 agentId: this.runtime.agentId,
                 content: { text: summary },
             },
-            {}
+            {
+                twitterUserName: this.twitterUsername,
+                summaryData: summary,
+                changesSinceYesterday,
+                formattedTweets,
+                sourceBreakdown: stats.sourceBreakdown,
+                reportLanguage: language,
+            }
         );
         
         elizaLogger.info("------------------------------------generateReportContent(2)------------------------------------------------");
-            
-        const context = composeContext({
-            state,
-            template: dailyReportTemplate
-        });
 
-        elizaLogger.info("------------------------------------generateReportContent(3)------------------------------------------------");
-
-        return generateText({
-            runtime: this.runtime,
-            context,
-            modelClass: ModelClass.LARGE
-        });
+        // Shares of the collected tweets, which the report may state as percentages
+        const counts = [
+            ...Object.values(stats.sentiment),
+            ...analysis.themes.map((theme) => theme.quantity),
+        ];
+        const sources = buildCitationSources(tweets, [
+            summary,
+            changesSinceYesterday,
+            formattedTweets,
+            stats.totalTweets,
+            ...counts,
+            ...counts.map((count) =>
+                stats.totalTweets ? (count / stats.totalTweets) * 100 : 0
+            ),
+        ]);
+
+        return this.generateVerifiedContent(
+            state,
+            withReportLanguage(profile.templates.report || dailyReportTemplate),
+            sources,
+            dataSections
+        );
     }
 
-    private async postDailyReport(content: string, roomId: UUID) {
+    private async generateDigestContent(
+        period: DigestPeriod,
+        periodStart: string,
+        periodEnd: string,
+        digestData: string,
+        tweets: Tweet[],
+        roomId: UUID,
+        profile: ReportProfile,
+        language: string
+    ): Promise<string> {
+        const formattedTweets = this.formatPromptTweets(
+            tweets,
+            [],
+            tagTweetSources(tweets, profile.targetUsers)
+        );
+        const state = await this.runtime.composeState(
+            {
+                userId: this.runtime.agentId,
+                roomId,
+                agentId: this.runtime.agentId,
+                content: { text: digestData },
+            },
+            {
+                twitterUserName: this.twitterUsername,
+                periodStart,
+                periodEnd,
+                digestData,
+                formattedTweets,
+                reportLanguage: language,
+            }
+        );
 
-        elizaLogger.info("------------------------------------postDailyReport()------------------------------------------------");
+        const template =
+            period === "weekly"
+                ? profile.templates.weekly || weeklyReportTemplate
+                : profile.templates.monthly || monthlyReportTemplate;
 
-        await this.postTweet(
-            this.runtime,
-            this.client,
-            content,
-            roomId,
-            content,
-            this.twitterUsername
+        const { content } = await this.generateVerifiedContent(
+            state,
+            withReportLanguage(template),
+            buildCitationSources(tweets, [digestData, formattedTweets])
         );
+        return content;
     }
 
-    // ------------ Helper Methods ------------
-    // ["AI", "Tech", "Tech", "News", "AI"] => ["AI", "Tech"]
-    private getTopHashtags(tweets: Tweet[], limit = 3): string[] {
-
-        elizaLogger.info("------------------------------------getTopHashtags()------------------------------------------------");
+    /**
+     * Generates a report and checks it before publishing. Citations of
+     * unknown tweets are removed, and the report is regenerated while more
+     * than DAILY_REPORT_MAX_UNVERIFIED_PERCENT of its citations and figures
+     * cannot be verified, or while it is too long for a single tweet. After
+     * the last attempt, bullet points with untraceable figures are dropped;
+     * the remaining format violations are always trimmed deterministically.
+     * `dataSections` are appended unchanged afterwards.
+     */
+    private async generateVerifiedContent(
+        state: State,
+        template: string,
+        sources: CitationSources,
+        dataSections: string[] = []
+    ): Promise<GeneratedReport> {
+        const config = this.client.twitterConfig;
+        const prompts: string[] = [];
+        let context = composeContext({ state, template });
+        let content = "";
+        let check: CitationCheck | null = null;
+
+        for (let attempt = 1; attempt <= MAX_REPORT_ATTEMPTS; attempt++) {
+            prompts.push(context);
+            const response = await generateText({
+                runtime: this.runtime,
+                context,
+                modelClass: ModelClass.LARGE
+            });
+
+            check = config.DAILY_REPORT_VERIFY_CITATIONS
+                ? verifyReportCitations(response, sources)
+                : null;
+            content = check?.text ?? response;
+
+            const citationIssues = check ? formatCitationIssues(check) : "";
+            const unverifiable =
+                check !== null &&
+                check.unverifiedRatio * 100 > config.DAILY_REPORT_MAX_UNVERIFIED_PERCENT;
+            const lengthIssues = config.DAILY_REPORT_ENFORCE_FORMAT
+                ? checkReportFormat(content, this.getFormatConstraints())
+                      .filter((violation) => violation.rule === "length")
+                      .map((violation) => `- ${violation.message}`)
+                : [];
+
+            if (!unverifiable && !lengthIssues.length) {
+                if (citationIssues) {
+                    elizaLogger.warn(`Report contains unverifiable content:\n${citationIssues}`);
+                }
+                break;
+            }
 
-        const hashtagCount = tweets
-            .flatMap(t => t.hashtags)
-            .reduce((acc, tag) => {
-                acc[tag] = (acc[tag] || 0) + 1;
-                return acc;
-            }, {});
+            const issues = [...(unverifiable ? [citationIssues] : []), ...lengthIssues].join("\n");
+            if (attempt === MAX_REPORT_ATTEMPTS) {
+                elizaLogger.warn(`Report still has issues after ${attempt} attempts:\n${issues}`);
+                if (unverifiable) {
+                    content = removeUnverifiedFigures(content, sources);
+                }
+                break;
+            }
 
-        const results = Object.entries(hashtagCount)
-            .sort((a, b) => b[1] - a[1])
-            .slice(0, limit)
-            .map(([tag]) => tag);
-        elizaLogger.info("------------------------------------getTopHashtags()---results--------"+results);
+            elizaLogger.warn(
+                `Report attempt ${attempt}/${MAX_REPORT_ATTEMPTS} needs a rewrite:\n${issues}`
+            );
+            context = composeContext({
+                state: {
+                    ...state,
+                    previousReport: response,
+                    reportIssues: issues,
+                },
+                template: template + reportRepairTemplate,
+            });
+        }
 
-        return results;
+        return {
+            content: appendReportSections(this.enforceFormat(content), dataSections),
+            prompts,
+            citations: check,
+        };
     }
 
-    private analyzeSentiment(tweets: Tweet[]): { positive: number; neutral: number; negative: number } {
-
-        elizaLogger.info("------------------------------------analyzeSentiment()------------------------------------------------");
-
-        const scores = tweets.map(t => {
-            const text = t.text.toLowerCase();
-            if (/(great|awesome|amazing)/.test(text)) return 1;
-            if (/(bad|terrible|disappointing)/.test(text)) return -1;
-            return 0;
-        });
-
-        elizaLogger.info("------------------------------------analyzeSentiment()---scores-----"+scores);
-
+    /**
+     * Format requirements of the report templates. Threads are split to
+     * fit MAX_TWEET_LENGTH, so the total length only matters for single
+     * tweet reports.
+     */
+    private getFormatConstraints(): ReportFormatConstraints {
+        const config = this.client.twitterConfig;
         return {
-            positive: scores.filter(s => s > 0).length,
-            neutral: scores.filter(s => s === 0).length,
-            negative: scores.filter(s => s < 0).length
+            ...DEFAULT_REPORT_FORMAT_CONSTRAINTS,
+            maxLength:
+                config.DAILY_REPORT_FORMAT === "tweet" ? config.MAX_TWEET_LENGTH : undefined,
         };
     }
 
-    private findMostEngagedTweet(tweets: Tweet[]): Tweet | null {
-
-        elizaLogger.info("------------------------------------findMostEngagedTweet()------------------------------------------------");
+    /**
+     * Trims the report to the format requirements, logging each fix.
+     */
+    private enforceFormat(content: string): string {
+        if (!this.client.twitterConfig.DAILY_REPORT_ENFORCE_FORMAT) {
+            return content;
+        }
 
-        return tweets.reduce((prev, current) => 
-            (prev.likes + prev.retweets) > (current.likes + current.retweets) ? prev : current
-        , { likes: 0, retweets: 0 } as Tweet);
+        const { text, fixed } = enforceReportFormat(content, this.getFormatConstraints());
+        for (const violation of fixed) {
+            elizaLogger.warn(`Fixed report format violation: ${violation.message}`);
+        }
+        return text;
     }
 
-    async postTweet(
-        runtime: IAgentRuntime,
-        client: ClientBase,
-        tweetTextForPosting: string,
-        roomId: UUID,
-        rawTweetContent: string,
-        twitterUsername: string,
-        mediaData?: MediaData[]
-    ) {
-        try {
-            elizaLogger.log(`Posting new tweet:\n`);
+    private formatPromptTweets(
+        tweets: Tweet[],
+        tweetSentiment: TweetSentiment[] = [],
+        tweetSources = new Map<string, ReportSourceKind>(),
+        stories = new Map<string, ReportStory>()
+    ): string {
+        const sentimentById = new Map(
+            tweetSentiment.map((sentiment) => [sentiment.tweetId, sentiment])
+        );
 
-            let result;
+        return tweets
+            .slice(0, MAX_REPORT_PROMPT_TWEETS)
+            .map((tweet) => {
+                const sentiment = sentimentById.get(tweet.id);
+                const source = tweetSources.get(tweet.id);
+                const story = stories.has(tweet.id) ? formatStory(stories.get(tweet.id)) : null;
+                return [
+                    `ID: ${tweet.id}`,
+                    `From: @${tweet.username}`,
+                    ...(source ? [`Source: ${REPORT_SOURCE_LABELS[source]}`] : []),
+                    `Text: ${tweet.text}`,
+                    ...(story ? [`Story: ${story}`] : []),
+                    `Engagement: ${formatEngagement(tweet)}`,
+                    ...(sentiment ? [`Sentiment: ${formatSentiment(sentiment)}`] : []),
+                    `URL: ${tweet.permanentUrl}`,
+                ].join("\n");
+            })
+            .join("\n---\n");
+    }
 
-            if (tweetTextForPosting.length > DEFAULT_MAX_TWEET_LENGTH) {
-                result = await this.handleNoteTweet(
-                    client,
-                    tweetTextForPosting,
-                    undefined,
-                    mediaData
+    /**
+     * Publishes the language versions of a report. With thread delivery,
+     * the other languages follow the first one to the profile's targets;
+     * otherwise each language goes to its own targets. Once one version
+     * is out, failures of the others are only logged, so a retry cannot
+     * publish it twice. Returns false when any version awaits approval.
+     */
+    private async publishReportVersions(
+        versions: ReportVersion[],
+        profile: ReportProfile,
+        delivery: Pick<ReportDelivery, "title" | "sections" | "sourceTweets" | "card">,
+        publishAt?: Date
+    ): Promise<boolean> {
+        const [first, ...others] = versions;
+        if (profile.languageDelivery === "thread" || !others.length) {
+            return this.postDailyReport(
+                first.content,
+                profile,
+                {
+                    ...delivery,
+                    targets: profile.targets,
+                    discordChannelIds: profile.discordChannelIds,
+                    translations: others.map(({ content }) => content),
+                },
+                publishAt
+            );
+        }
+
+        let published = true;
+        let delivered = 0;
+        for (const { language, content } of versions) {
+            try {
+                const versionPublished = await this.postDailyReport(
+                    content,
+                    profile,
+                    {
+                        ...delivery,
+                        title: `${delivery.title} (${language.name})`,
+                        targets: language.targets,
+                        discordChannelIds: language.discordChannelIds,
+                    },
+                    publishAt
                 );
-            } else {
-                result = await this.sendStandardTweet(
-                    client,
-                    tweetTextForPosting,
-                    undefined,
-                    mediaData
+                published &&= versionPublished;
+                delivered++;
+            } catch (error) {
+                if (!delivered) {
+                    throw error;
+                }
+                elizaLogger.error(
+                    `Failed to publish the ${language.name} version of "${delivery.title}":`,
+                    error
                 );
             }
+        }
+        return published;
+    }
 
-            const tweet = this.createTweetObject(
-                result,
-                client,
-                twitterUsername
-            );
+    /**
+     * Publishes a report, or sends it through the post approval workflow
+     * when that is enabled. Approved reports are delivered at `publishAt`,
+     * or on the next approval check when approved later.
+     * Returns false when the report was queued for approval.
+     */
+    private async postDailyReport(
+        content: string,
+        profile: ReportProfile,
+        delivery: ReportDelivery,
+        publishAt?: Date
+    ): Promise<boolean> {
 
-            await this.processAndCacheTweet(
-                runtime,
-                client,
-                tweet,
-                roomId,
-                rawTweetContent
-            );
-        } catch (error) {
-            elizaLogger.error("Error sending tweet:", error);
+        elizaLogger.info("------------------------------------postDailyReport()------------------------------------------------");
+
+        const roomId = profile.roomId;
+        if (!this.requiresApproval(delivery.targets)) {
+            await this.deliverReport(content, roomId, delivery);
+            return true;
         }
+
+        // Moderators review every language of the report
+        const reviewText = [content, ...(delivery.translations ?? [])].join("\n\n");
+        const taskId = await this.approval.submit<PendingReport>({
+            kind: "report",
+            tweetTextForPosting: reviewText,
+            roomId,
+            rawTweetContent: reviewText,
+            publishAt: publishAt?.getTime(),
+            payload: {
+                content,
+                delivery: {
+                    ...delivery,
+                    sourceTweets: delivery.sourceTweets.slice(0, MAX_PENDING_SOURCE_TWEETS),
+                },
+            },
+        });
+
+        if (!taskId) {
+            if (!this.client.twitterConfig.POST_IMMEDIATELY) {
+                throw new Error(`Failed to send "${delivery.title}" for approval`);
+            }
+            elizaLogger.warn("Verification failed, but POST_IMMEDIATELY is enabled - posting report directly");
+            await this.deliverReport(content, roomId, delivery);
+            return true;
+        }
+
+        elizaLogger.log(`"${delivery.title}" sent for approval with task ID: ${taskId}`);
+
+        // Publish right on time if approved before then, not on the next check
+        const delay = (publishAt?.getTime() ?? 0) - Date.now();
+        if (delay > 0) {
+            setTimeout(() => {
+                this.approval.checkPendingPosts().catch((error) =>
+                    elizaLogger.error("Error checking pending reports:", error)
+                );
+            }, Math.min(delay, MAX_SCHEDULER_DELAY));
+        }
+        return false;
     }
 
-    async handleNoteTweet(
-        client: ClientBase,
+    /**
+     * Delivers a report to every target of its profile. A failing target
+     * does not stop the others; this only throws when no target (besides
+     * the log) received the report, so a retry cannot publish it twice.
+     */
+    private async deliverReport(
         content: string,
-        tweetId?: string,
-        mediaData?: MediaData[]
+        roomId: UUID,
+        delivery: ReportDelivery
     ) {
-        try {
-            const noteTweetResult = await client.requestQueue.add(
-                async () =>
-                    await client.twitterClient.sendNoteTweet(
-                        content,
-                        tweetId,
-                        mediaData
-                    )
-            );
+        const config = this.client.twitterConfig;
+        // Reports queued before profiles existed carry no targets
+        const targets = delivery.targets ?? config.DAILY_REPORT_TARGETS;
+        const failedTargets: DailyReportTarget[] = [];
+        const versions = [content, ...(delivery.translations ?? [])];
+
+        if (targets.includes("log")) {
+            elizaLogger.log(`Daily report:\n${versions.join("\n\n")}`);
+        }
 
-            if (noteTweetResult.errors && noteTweetResult.errors.length > 0) {
-                // Note Tweet failed due to authorization. Falling back to standard Tweet.
-                const truncateContent = truncateToCompleteSentence(
+        if (targets.includes("twitter")) {
+            try {
+                await this.publishReportTweets(
                     content,
-                    this.client.twitterConfig.MAX_TWEET_LENGTH
+                    roomId,
+                    delivery.sections,
+                    delivery.translations,
+                    delivery.card
                 );
-                return await this.sendStandardTweet(
-                    client,
-                    truncateContent,
-                    tweetId
-                );
-            } else {
-                return noteTweetResult.data.notetweet_create.tweet_results
-                    .result;
+            } catch (error) {
+                elizaLogger.error("Failed to publish report to Twitter:", error);
+                failedTargets.push("twitter");
             }
-        } catch (error) {
-            throw new Error(`Note Tweet failed: ${error}`);
+        }
+
+        if (targets.includes("discord")) {
+            try {
+                // One embed per language
+                for (const version of versions) {
+                    await sendReportToDiscord(
+                        config.DAILY_REPORT_DISCORD_BOT_TOKEN,
+                        delivery.discordChannelIds ?? config.DAILY_REPORT_DISCORD_CHANNEL_IDS,
+                        buildReportEmbed(
+                            delivery.title,
+                            version,
+                            delivery.sections,
+                            delivery.sourceTweets
+                        )
+                    );
+                }
+            } catch (error) {
+                elizaLogger.error("Failed to deliver report to Discord:", error);
+                failedTargets.push("discord");
+            }
+        }
+
+        const deliveryTargets = targets.filter((target) => target !== "log");
+        if (deliveryTargets.length && failedTargets.length === deliveryTargets.length) {
+            throw new Error(`Report delivery failed for: ${failedTargets.join(", ")}`);
         }
     }
 
-    async sendStandardTweet(
-        client: ClientBase,
+    /**
+     * Posts the report as a thread or a single tweet. Translations continue
+     * the thread, each one rendered like the report itself. The chart card
+     * goes with the first tweet; if it cannot be rendered, the report is
+     * posted without it.
+     */
+    private async publishReportTweets(
         content: string,
-        tweetId?: string,
-        mediaData?: MediaData[]
+        roomId: UUID,
+        sections: string[],
+        translations: string[] = [],
+        card?: ReportCard
     ) {
-        try {
-            const standardTweetResult = await client.requestQueue.add(
-                async () =>
-                    await client.twitterClient.sendTweet(
-                        content,
-                        tweetId,
-                        mediaData
-                    )
+        const config = this.client.twitterConfig;
+        const parts = [content, ...translations].flatMap((version) =>
+            config.DAILY_REPORT_FORMAT === "thread"
+                ? renderReportThread(version, {
+                      sections,
+                      maxLength: config.MAX_TWEET_LENGTH,
+                      numbering: config.DAILY_REPORT_THREAD_NUMBERING,
+                  })
+                : [version]
+        );
+
+        if (this.isDryRun) {
+            elizaLogger.info(
+                `Dry run: would have posted daily report${card ? " with a chart card" : ""}: ${parts.join("\n---\n")}`
             );
-            const body = await standardTweetResult.json();
-            if (!body?.data?.create_tweet?.tweet_results?.result) {
-                elizaLogger.error("Error sending tweet; Bad response:", body);
-                return;
+            return;
+        }
+
+        let mediaData: MediaData[] | undefined;
+        if (card) {
+            try {
+                const media = await renderReportCard(card);
+                mediaData = media ? [media] : undefined;
+            } catch (error) {
+                elizaLogger.error("Failed to render the report chart card:", error);
             }
-            return body.data.create_tweet.tweet_results.result;
-        } catch (error) {
-            elizaLogger.error("Error sending standard Tweet:", error);
-            throw error;
         }
+
+        await this.publisher.publishThread(parts, { roomId, mediaData });
     }
 
-    createTweetObject(
-        tweetResult: any,
-        client: any,
-        twitterUsername: string
-    ): Tweet {
-        return {
-            id: tweetResult.rest_id,
-            name: client.profile.screenName,
-            username: client.profile.username,
-            text: tweetResult.legacy.full_text,
-            conversationId: tweetResult.legacy.conversation_id_str,
-            createdAt: tweetResult.legacy.created_at,
-            timestamp: new Date(tweetResult.legacy.created_at).getTime(),
-            userId: client.profile.id,
-            inReplyToStatusId: tweetResult.legacy.in_reply_to_status_id_str,
-            permanentUrl: `https://twitter.com/${twitterUsername}/status/${tweetResult.rest_id}`,
-            hashtags: [],
-            mentions: [],
-            photos: [],
-            thread: [],
-            urls: [],
-            videos: [],
-        } as Tweet;
-    }
-
-    async processAndCacheTweet(
-        runtime: IAgentRuntime,
-        client: ClientBase,
-        tweet: Tweet,
-        roomId: UUID,
-        rawTweetContent: string
-    ) {
-        // Cache the last post details
-        await runtime.cacheManager.set(
-            `twitter/${client.profile.username}/lastPost`,
-            {
-                id: tweet.id,
-                timestamp: Date.now(),
-            }
-        );
+    // ------------ Helper Methods ------------
+    // ["AI", "Tech", "Tech", "News", "AI"] => ["AI", "Tech"]
+    private getTopHashtags(tweets: Tweet[], limit = 3): string[] {
 
-        // Cache the tweet
-        await client.cacheTweet(tweet);
+        elizaLogger.info("------------------------------------getTopHashtags()------------------------------------------------");
 
-        // Log the posted tweet
-        elizaLogger.log(`Tweet posted:\n ${tweet.permanentUrl}`);
+        const hashtagCount = tweets
+            .flatMap(t => t.hashtags)
+            .reduce((acc, tag) => {
+                acc[tag] = (acc[tag] || 0) + 1;
+                return acc;
+            }, {});
 
-        // Ensure the room and participant exist
-        await runtime.ensureRoomExists(roomId);
-        await runtime.ensureParticipantInRoom(runtime.agentId, roomId);
+        const results = Object.entries(hashtagCount)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, limit)
+            .map(([tag]) => tag);
+        elizaLogger.info("------------------------------------getTopHashtags()---results--------"+results);
 
-        // Create a memory for the tweet
-        await runtime.messageManager.createMemory({
-            id: stringToUuid(tweet.id + "-" + runtime.agentId),
-            userId: runtime.agentId,
-            agentId: runtime.agentId,
-            content: {
-                text: rawTweetContent.trim(),
-                url: tweet.permanentUrl,
-                source: "twitter",
-            },
-            roomId,
-            embedding: getEmbeddingZeroVector(),
-            createdAt: tweet.timestamp,
-        });
+        return results;
     }
-}
\ No newline at end of file
+}
@@ -4,6 +4,16 @@ import {
     ActionTimelineType,
 } from "@elizaos/core";
 import { z, ZodError } from "zod";
+import {
+    DEFAULT_DAILY_REPORT_TIME,
+    DEFAULT_DAILY_REPORT_TIMEZONE,
+    isValidTimeZone,
+    WEEKDAYS,
+} from "./report/scheduler.ts";
+import {
+    DEFAULT_ENGAGEMENT_WEIGHTS,
+    type EngagementWeights,
+} from "./report/engagement.ts";
 
 export const DEFAULT_MAX_TWEET_LENGTH = 280;
 
@@ -22,6 +32,216 @@ const twitterUsernameSchema = z
         return /^[A-Za-z0-9_]+$/.test(username);
     }, "An X Username can only contain letters, numbers, and underscores");
 
+/**
+ * Where a generated daily report is delivered:
+ * - twitter: published as a tweet from the agent account
+ * - discord: posted as an embed to DAILY_REPORT_DISCORD_CHANNEL_IDS
+ * - log: written to the agent log only
+ */
+export const dailyReportTargetSchema = z.enum(["twitter", "discord", "log"]);
+
+export type DailyReportTarget = z.infer<typeof dailyReportTargetSchema>;
+
+/**
+ * How a report is published on Twitter:
+ * - thread: one tweet per report section, chained as replies
+ * - tweet: the whole report as a single (note) tweet
+ */
+export const dailyReportFormatSchema = z.enum(["thread", "tweet"]);
+
+export type DailyReportFormat = z.infer<typeof dailyReportFormatSchema>;
+
+/**
+ * File formats written to the report archive (DAILY_REPORT_ARCHIVE_DIR)
+ */
+export const dailyReportArchiveFormatSchema = z.enum(["markdown", "html", "json"]);
+
+export type DailyReportArchiveFormat = z.infer<typeof dailyReportArchiveFormatSchema>;
+
+/**
+ * How the language versions of a multilingual report are published:
+ * - thread: the other languages follow the first one as replies in its thread
+ * - separate: each language is delivered on its own, to its own targets
+ */
+export const reportLanguageDeliverySchema = z.enum(["thread", "separate"]);
+
+export type ReportLanguageDelivery = z.infer<typeof reportLanguageDeliverySchema>;
+
+const hexColorSchema = z
+    .string()
+    .regex(/^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i, "Colors must be hex codes such as #1d9bf0");
+
+/**
+ * Look of a report profile's chart card. Unset fields keep the defaults
+ * of DEFAULT_REPORT_CARD_STYLE.
+ */
+export const reportCardSchema = z
+    .object({
+        enabled: z.boolean().optional(),
+        layout: z.enum(["stacked", "columns"]).optional(),
+        width: z.number().int().min(600).max(4096).optional(),
+        height: z.number().int().min(400).max(4096).optional(),
+        maxThemes: z.number().int().min(1).max(10).optional(),
+        colors: z
+            .object({
+                background: hexColorSchema.optional(),
+                text: hexColorSchema.optional(),
+                muted: hexColorSchema.optional(),
+                bars: z.array(hexColorSchema).min(1).optional(),
+                positive: hexColorSchema.optional(),
+                neutral: hexColorSchema.optional(),
+                negative: hexColorSchema.optional(),
+            })
+            .strict()
+            .optional(),
+        brand: z.string().optional(),
+        fontFamily: z.string().min(1).optional(),
+        fontFile: z.string().min(1).optional(),
+    })
+    .strict();
+
+export type ReportCardConfig = z.infer<typeof reportCardSchema>;
+
+const reportLanguageNameSchema = z.string().trim().min(1, "Report languages cannot be empty");
+
+/**
+ * How tweet sentiment is scored:
+ * - lexicon: offline word and emoji lexicon
+ * - llm: the agent's model, falling back to the lexicon on errors
+ */
+export const sentimentAnalyzerSchema = z.enum(["lexicon", "llm"]);
+
+export type SentimentAnalyzerType = z.infer<typeof sentimentAnalyzerSchema>;
+
+const engagementWeightSchema = z
+    .number()
+    .nonnegative("Engagement weights cannot be negative");
+
+/**
+ * Weights of the engagement score, unset metrics keep their default weight
+ */
+export const engagementWeightsSchema = z
+    .object({
+        likes: engagementWeightSchema.optional(),
+        retweets: engagementWeightSchema.optional(),
+        replies: engagementWeightSchema.optional(),
+        quotes: engagementWeightSchema.optional(),
+        bookmarks: engagementWeightSchema.optional(),
+        views: engagementWeightSchema.optional(),
+    })
+    .strict()
+    .transform(
+        (weights): EngagementWeights => ({ ...DEFAULT_ENGAGEMENT_WEIGHTS, ...weights })
+    );
+
+const reportTimeSchema = z
+    .string()
+    .regex(/^([01]?\d|2[0-3]):([0-5]\d)$/, "Report time must be in 24h HH:MM format");
+
+const reportTimeZoneSchema = z
+    .string()
+    .refine(isValidTimeZone, "Daily report timezone must be a valid IANA timezone");
+
+const reportTemplateSchema = z.string().min(1, "Report templates cannot be empty");
+
+/**
+ * A named report from the character file (`twitterReports`). Unset
+ * fields fall back to the DAILY_REPORT_* settings.
+ */
+export const reportProfileSchema = z
+    .object({
+        name: z
+            .string()
+            .regex(
+                /^[A-Za-z0-9][A-Za-z0-9_-]*$/,
+                "Report profile names can only contain letters, numbers, dashes and underscores"
+            ),
+        targetUsers: z
+            .array(
+                z
+                    .string()
+                    .transform((username) => username.trim().replace(/^@/, ""))
+                    .pipe(twitterUsernameSchema)
+            )
+            .optional(),
+        searchQueries: z.array(z.string().trim().min(1, "Search queries cannot be empty")).optional(),
+        templates: z
+            .object({
+                analysis: reportTemplateSchema.optional(),
+                report: reportTemplateSchema.optional(),
+                weekly: reportTemplateSchema.optional(),
+                monthly: reportTemplateSchema.optional(),
+            })
+            .strict()
+            .optional(),
+        schedule: z
+            .object({
+                time: reportTimeSchema.optional(),
+                timezone: reportTimeZoneSchema.optional(),
+                lookbackHours: z.number().int().min(1).max(168).optional(),
+                weekly: z
+                    .object({
+                        enabled: z.boolean().optional(),
+                        day: z
+                            .string()
+                            .transform((day) => day.trim().toLowerCase())
+                            .pipe(z.enum(WEEKDAYS))
+                            .optional(),
+                        time: reportTimeSchema.optional(),
+                    })
+                    .strict()
+                    .optional(),
+                monthly: z
+                    .object({
+                        enabled: z.boolean().optional(),
+                        time: reportTimeSchema.optional(),
+                    })
+                    .strict()
+                    .optional(),
+            })
+            .strict()
+            .optional(),
+        // A UUID, or any string to derive one from
+        roomId: z.string().min(1).optional(),
+        targets: z
+            .array(dailyReportTargetSchema)
+            .min(1, "At least one daily report target is required")
+            .optional(),
+        discordChannelIds: z.array(z.string().min(1)).optional(),
+        // Language names such as "English" or "Chinese", optionally with own targets
+        languages: z
+            .array(
+                z.union([
+                    reportLanguageNameSchema,
+                    z
+                        .object({
+                            language: reportLanguageNameSchema,
+                            targets: z
+                                .array(dailyReportTargetSchema)
+                                .min(1, "At least one daily report target is required")
+                                .optional(),
+                            discordChannelIds: z.array(z.string().min(1)).optional(),
+                        })
+                        .strict(),
+                ])
+            )
+            .min(1, "At least one report language is required")
+            .optional(),
+        languageDelivery: reportLanguageDeliverySchema.optional(),
+        // A card block enables the chart card unless it says enabled: false
+        card: reportCardSchema.optional(),
+    })
+    .strict()
+    .refine(
+        (profile) => profile.targetUsers?.length || profile.searchQueries?.length,
+        {
+            message: "A report profile needs at least one target user or search query",
+            path: ["targetUsers"],
+        }
+    );
+
+export type ReportProfileConfig = z.infer<typeof reportProfileSchema>;
+
 /**
  * This schema defines all required/optional environment settings,
  * including new fields like TWITTER_SPACES_ENABLE.
@@ -76,24 +296,128 @@ export const twitterEnvSchema = z.object({
     ACTION_TIMELINE_TYPE: z
         .nativeEnum(ActionTimelineType)
         .default(ActionTimelineType.ForYou),
+    TWITTER_SENTIMENT_ANALYZER: sentimentAnalyzerSchema.default("lexicon"),
+    DAILY_REPORT_ENABLE: z.boolean().default(false),
+    DAILY_REPORT_TIME: reportTimeSchema.default(DEFAULT_DAILY_REPORT_TIME),
+    DAILY_REPORT_TIMEZONE: reportTimeZoneSchema.default(DEFAULT_DAILY_REPORT_TIMEZONE),
+    DAILY_REPORT_LOOKBACK_HOURS: z.number().int().min(1).max(168).default(24),
+    DAILY_REPORT_TWEETS_PER_USER: z.number().int().min(1).default(50),
+    // Report sources besides the target users, e.g. "#ICP lang:en"
+    DAILY_REPORT_SEARCH_QUERIES: z.array(z.string().min(1)).default([]),
+    DAILY_REPORT_TWEETS_PER_QUERY: z.number().int().min(1).default(50),
+    DAILY_REPORT_INCLUDE_REPLIES: z.boolean().default(false),
+    DAILY_REPORT_INCLUDE_QUOTES: z.boolean().default(true),
+    DAILY_REPORT_TARGETS: z
+        .array(dailyReportTargetSchema)
+        .min(1, "At least one daily report target is required")
+        .default(["twitter"]),
+    DAILY_REPORT_TEMPLATE: z.string().optional(),
+    DAILY_REPORT_FORMAT: dailyReportFormatSchema.default("thread"),
+    DAILY_REPORT_THREAD_NUMBERING: z.boolean().default(false),
+    // The report is generated once per language, in this order
+    DAILY_REPORT_LANGUAGES: z
+        .array(reportLanguageNameSchema)
+        .min(1, "At least one report language is required")
+        .default(["English"]),
+    DAILY_REPORT_LANGUAGE_DELIVERY: reportLanguageDeliverySchema.default("thread"),
+    DAILY_REPORT_USER_ACTIVITY: z.boolean().default(true),
+    DAILY_REPORT_SHARED_LINKS: z.boolean().default(true),
+    DAILY_REPORT_AGENT_ACTIVITY: z.boolean().default(false),
+    DAILY_REPORT_CARD_ENABLE: z.boolean().default(false),
+    DAILY_REPORT_ENGAGEMENT_WEIGHTS: engagementWeightsSchema.default({}),
+    DAILY_REPORT_ENGAGEMENT_NORMALIZE: z.boolean().default(true),
+    DAILY_REPORT_COLLAPSE_DUPLICATES: z.boolean().default(true),
+    // Text similarity, in percent, at which tweets count as one story
+    DAILY_REPORT_DUPLICATE_SIMILARITY: z.number().int().min(50).max(100).default(80),
+    DAILY_REPORT_VERIFY_CITATIONS: z.boolean().default(true),
+    DAILY_REPORT_ENFORCE_FORMAT: z.boolean().default(true),
+    // Share of unverifiable citations and figures that triggers a rewrite
+    DAILY_REPORT_MAX_UNVERIFIED_PERCENT: z.number().int().min(1).max(100).default(20),
+    // Only used when reports go through the post approval workflow
+    DAILY_REPORT_APPROVAL_LEAD_MINUTES: z.number().int().min(1).max(720).default(60),
+    // Archiving is disabled when no directory is set
+    DAILY_REPORT_ARCHIVE_DIR: z.string().optional(),
+    DAILY_REPORT_ARCHIVE_FORMATS: z
+        .array(dailyReportArchiveFormatSchema)
+        .min(1, "At least one archive format is required")
+        .default(["markdown", "html", "json"]),
+    DAILY_REPORT_DISCORD_BOT_TOKEN: z.string().optional(),
+    DAILY_REPORT_DISCORD_CHANNEL_IDS: z.array(z.string()).default([]),
+    WEEKLY_REPORT_ENABLE: z.boolean().default(false),
+    WEEKLY_REPORT_DAY: z.enum(WEEKDAYS).default("sunday"),
+    // Falls back to DAILY_REPORT_TIME when unset
+    WEEKLY_REPORT_TIME: reportTimeSchema.optional(),
+    WEEKLY_REPORT_TEMPLATE: z.string().optional(),
+    MONTHLY_REPORT_ENABLE: z.boolean().default(false),
+    // Falls back to DAILY_REPORT_TIME when unset
+    MONTHLY_REPORT_TIME: reportTimeSchema.optional(),
+    MONTHLY_REPORT_TEMPLATE: z.string().optional(),
+    // Named reports from the character file, replacing the default report
+    DAILY_REPORT_PROFILES: z
+        .array(reportProfileSchema)
+        .default([])
+        .superRefine((profiles, ctx) => {
+            const names = new Set<string>();
+            profiles.forEach((profile, index) => {
+                const name = profile.name.toLowerCase();
+                if (names.has(name)) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        path: [index, "name"],
+                        message: `Duplicate report profile name "${profile.name}"`,
+                    });
+                }
+                names.add(name);
+            });
+        }),
 });
 
 export type TwitterConfig = z.infer<typeof twitterEnvSchema>;
 
 /**
- * Helper to parse a comma-separated list of Twitter usernames
- * (already present in your code).
+ * Parse a comma-separated setting such as "user1,user2" into its trimmed
+ * items. Unset or blank settings give undefined, so the schema default
+ * applies.
  */
-function parseTargetUsers(targetUsersStr?: string | null): string[] {
-    if (!targetUsersStr?.trim()) {
-        return [];
+function parseCommaList(listStr?: string | null): string[] | undefined {
+    if (!listStr?.trim()) {
+        return undefined;
     }
-    return targetUsersStr
+    return listStr
         .split(",")
-        .map((user) => user.trim())
+        .map((item) => item.trim())
         .filter(Boolean);
 }
 
+/**
+ * Parse a comma-separated list of daily report options, e.g. "twitter,log"
+ */
+function parseReportList(listStr?: string | null): string[] | undefined {
+    return parseCommaList(listStr)?.map((option) => option.toLowerCase());
+}
+
+/**
+ * Parse engagement weights such as "likes:1,retweets:2,views:0.01".
+ * Weights that are not numbers become NaN, so validation reports them.
+ */
+function parseEngagementWeights(
+    weightsStr?: string | null
+): Record<string, number> | undefined {
+    if (!weightsStr?.trim()) {
+        return undefined;
+    }
+    return Object.fromEntries(
+        weightsStr
+            .split(",")
+            .map((pair) => pair.trim())
+            .filter(Boolean)
+            .map((pair) => {
+                const [metric, weight] = pair.split(":");
+                return [metric.trim().toLowerCase(), Number.parseFloat(weight)];
+            })
+    );
+}
+
 function safeParseInt(
     value: string | undefined | null,
     defaultValue: number
@@ -169,7 +493,7 @@ export async function validateTwitterConfig(
             ),
 
             // comma separated string
-            TWITTER_TARGET_USERS: parseTargetUsers(
+            TWITTER_TARGET_USERS: parseCommaList(
                 runtime.getSetting("TWITTER_TARGET_USERS") ||
                     process.env.TWITTER_TARGET_USERS
             ),
@@ -232,9 +556,326 @@ export async function validateTwitterConfig(
             ACTION_TIMELINE_TYPE:
                 runtime.getSetting("ACTION_TIMELINE_TYPE") ||
                 process.env.ACTION_TIMELINE_TYPE,
+
+            // "lexicon" or "llm"
+            TWITTER_SENTIMENT_ANALYZER:
+                (
+                    runtime.getSetting("TWITTER_SENTIMENT_ANALYZER") ||
+                    process.env.TWITTER_SENTIMENT_ANALYZER
+                )
+                    ?.trim()
+                    .toLowerCase() || undefined,
+
+            // bool
+            DAILY_REPORT_ENABLE:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_ENABLE") ||
+                        process.env.DAILY_REPORT_ENABLE
+                ) ?? false,
+
+            // HH:MM in DAILY_REPORT_TIMEZONE
+            DAILY_REPORT_TIME:
+                runtime.getSetting("DAILY_REPORT_TIME") ||
+                process.env.DAILY_REPORT_TIME ||
+                undefined,
+
+            // IANA timezone name, e.g. "Asia/Shanghai"
+            DAILY_REPORT_TIMEZONE:
+                runtime.getSetting("DAILY_REPORT_TIMEZONE") ||
+                process.env.DAILY_REPORT_TIMEZONE ||
+                undefined,
+
+            // int in hours
+            DAILY_REPORT_LOOKBACK_HOURS: safeParseInt(
+                runtime.getSetting("DAILY_REPORT_LOOKBACK_HOURS") ||
+                    process.env.DAILY_REPORT_LOOKBACK_HOURS,
+                24
+            ),
+
+            // int
+            DAILY_REPORT_TWEETS_PER_USER: safeParseInt(
+                runtime.getSetting("DAILY_REPORT_TWEETS_PER_USER") ||
+                    process.env.DAILY_REPORT_TWEETS_PER_USER,
+                50
+            ),
+
+            // comma separated string
+            DAILY_REPORT_SEARCH_QUERIES: parseCommaList(
+                runtime.getSetting("DAILY_REPORT_SEARCH_QUERIES") ||
+                    process.env.DAILY_REPORT_SEARCH_QUERIES
+            ),
+
+            // int
+            DAILY_REPORT_TWEETS_PER_QUERY: safeParseInt(
+                runtime.getSetting("DAILY_REPORT_TWEETS_PER_QUERY") ||
+                    process.env.DAILY_REPORT_TWEETS_PER_QUERY,
+                50
+            ),
+
+            // bool
+            DAILY_REPORT_INCLUDE_REPLIES:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_INCLUDE_REPLIES") ||
+                        process.env.DAILY_REPORT_INCLUDE_REPLIES
+                ) ?? false,
+
+            // bool
+            DAILY_REPORT_INCLUDE_QUOTES:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_INCLUDE_QUOTES") ||
+                        process.env.DAILY_REPORT_INCLUDE_QUOTES
+                ) ?? true,
+
+            // comma separated string
+            DAILY_REPORT_TARGETS: parseReportList(
+                runtime.getSetting("DAILY_REPORT_TARGETS") ||
+                    process.env.DAILY_REPORT_TARGETS
+            ),
+
+            // string passthru
+            DAILY_REPORT_TEMPLATE:
+                runtime.getSetting("DAILY_REPORT_TEMPLATE") ||
+                process.env.DAILY_REPORT_TEMPLATE ||
+                undefined,
+
+            // "thread" or "tweet"
+            DAILY_REPORT_FORMAT:
+                (
+                    runtime.getSetting("DAILY_REPORT_FORMAT") ||
+                    process.env.DAILY_REPORT_FORMAT
+                )
+                    ?.trim()
+                    .toLowerCase() || undefined,
+
+            // bool
+            DAILY_REPORT_THREAD_NUMBERING:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_THREAD_NUMBERING") ||
+                        process.env.DAILY_REPORT_THREAD_NUMBERING
+                ) ?? false,
+
+            // comma separated string
+            DAILY_REPORT_LANGUAGES: parseCommaList(
+                runtime.getSetting("DAILY_REPORT_LANGUAGES") ||
+                    process.env.DAILY_REPORT_LANGUAGES
+            ),
+
+            // "thread" or "separate"
+            DAILY_REPORT_LANGUAGE_DELIVERY:
+                (
+                    runtime.getSetting("DAILY_REPORT_LANGUAGE_DELIVERY") ||
+                    process.env.DAILY_REPORT_LANGUAGE_DELIVERY
+                )
+                    ?.trim()
+                    .toLowerCase() || undefined,
+
+            // bool
+            DAILY_REPORT_USER_ACTIVITY:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_USER_ACTIVITY") ||
+                        process.env.DAILY_REPORT_USER_ACTIVITY
+                ) ?? true,
+
+            // bool
+            DAILY_REPORT_SHARED_LINKS:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_SHARED_LINKS") ||
+                        process.env.DAILY_REPORT_SHARED_LINKS
+                ) ?? true,
+
+            // bool
+            DAILY_REPORT_AGENT_ACTIVITY:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_AGENT_ACTIVITY") ||
+                        process.env.DAILY_REPORT_AGENT_ACTIVITY
+                ) ?? false,
+
+            // bool
+            DAILY_REPORT_CARD_ENABLE:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_CARD_ENABLE") ||
+                        process.env.DAILY_REPORT_CARD_ENABLE
+                ) ?? false,
+
+            // comma separated metric:weight pairs
+            DAILY_REPORT_ENGAGEMENT_WEIGHTS: parseEngagementWeights(
+                runtime.getSetting("DAILY_REPORT_ENGAGEMENT_WEIGHTS") ||
+                    process.env.DAILY_REPORT_ENGAGEMENT_WEIGHTS
+            ),
+
+            // bool
+            DAILY_REPORT_ENGAGEMENT_NORMALIZE:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_ENGAGEMENT_NORMALIZE") ||
+                        process.env.DAILY_REPORT_ENGAGEMENT_NORMALIZE
+                ) ?? true,
+
+            // bool
+            DAILY_REPORT_COLLAPSE_DUPLICATES:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_COLLAPSE_DUPLICATES") ||
+                        process.env.DAILY_REPORT_COLLAPSE_DUPLICATES
+                ) ?? true,
+
+            // int in percent
+            DAILY_REPORT_DUPLICATE_SIMILARITY: safeParseInt(
+                runtime.getSetting("DAILY_REPORT_DUPLICATE_SIMILARITY") ||
+                    process.env.DAILY_REPORT_DUPLICATE_SIMILARITY,
+                80
+            ),
+
+            // bool
+            DAILY_REPORT_VERIFY_CITATIONS:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_VERIFY_CITATIONS") ||
+                        process.env.DAILY_REPORT_VERIFY_CITATIONS
+                ) ?? true,
+
+            // bool
+            DAILY_REPORT_ENFORCE_FORMAT:
+                parseBooleanFromText(
+                    runtime.getSetting("DAILY_REPORT_ENFORCE_FORMAT") ||
+                        process.env.DAILY_REPORT_ENFORCE_FORMAT
+                ) ?? true,
+
+            // int in percent
+            DAILY_REPORT_MAX_UNVERIFIED_PERCENT: safeParseInt(
+                runtime.getSetting("DAILY_REPORT_MAX_UNVERIFIED_PERCENT") ||
+                    process.env.DAILY_REPORT_MAX_UNVERIFIED_PERCENT,
+                20
+            ),
+
+            // int in minutes
+            DAILY_REPORT_APPROVAL_LEAD_MINUTES: safeParseInt(
+                runtime.getSetting("DAILY_REPORT_APPROVAL_LEAD_MINUTES") ||
+                    process.env.DAILY_REPORT_APPROVAL_LEAD_MINUTES,
+                60
+            ),
+
+            // directory path
+            DAILY_REPORT_ARCHIVE_DIR:
+                runtime.getSetting("DAILY_REPORT_ARCHIVE_DIR") ||
+                process.env.DAILY_REPORT_ARCHIVE_DIR ||
+                undefined,
+
+            // comma separated string
+            DAILY_REPORT_ARCHIVE_FORMATS: parseReportList(
+                runtime.getSetting("DAILY_REPORT_ARCHIVE_FORMATS") ||
+                    process.env.DAILY_REPORT_ARCHIVE_FORMATS
+            ),
+
+            // string, defaults to the approval bot token
+            DAILY_REPORT_DISCORD_BOT_TOKEN:
+                runtime.getSetting("DAILY_REPORT_DISCORD_BOT_TOKEN") ||
+                process.env.DAILY_REPORT_DISCORD_BOT_TOKEN ||
+                runtime.getSetting("TWITTER_APPROVAL_DISCORD_BOT_TOKEN") ||
+                process.env.TWITTER_APPROVAL_DISCORD_BOT_TOKEN ||
+                undefined,
+
+            // comma separated string
+            DAILY_REPORT_DISCORD_CHANNEL_IDS: parseCommaList(
+                runtime.getSetting("DAILY_REPORT_DISCORD_CHANNEL_IDS") ||
+                    process.env.DAILY_REPORT_DISCORD_CHANNEL_IDS
+            ),
+
+            // bool
+            WEEKLY_REPORT_ENABLE:
+                parseBooleanFromText(
+                    runtime.getSetting("WEEKLY_REPORT_ENABLE") ||
+                        process.env.WEEKLY_REPORT_ENABLE
+                ) ?? false,
+
+            // weekday name, e.g. "sunday"
+            WEEKLY_REPORT_DAY:
+                (
+                    runtime.getSetting("WEEKLY_REPORT_DAY") ||
+                    process.env.WEEKLY_REPORT_DAY
+                )
+                    ?.trim()
+                    .toLowerCase() || undefined,
+
+            // HH:MM in DAILY_REPORT_TIMEZONE
+            WEEKLY_REPORT_TIME:
+                runtime.getSetting("WEEKLY_REPORT_TIME") ||
+                process.env.WEEKLY_REPORT_TIME ||
+                undefined,
+
+            // string passthru
+            WEEKLY_REPORT_TEMPLATE:
+                runtime.getSetting("WEEKLY_REPORT_TEMPLATE") ||
+                process.env.WEEKLY_REPORT_TEMPLATE ||
+                undefined,
+
+            // bool
+            MONTHLY_REPORT_ENABLE:
+                parseBooleanFromText(
+                    runtime.getSetting("MONTHLY_REPORT_ENABLE") ||
+                        process.env.MONTHLY_REPORT_ENABLE
+                ) ?? false,
+
+            // HH:MM in DAILY_REPORT_TIMEZONE
+            MONTHLY_REPORT_TIME:
+                runtime.getSetting("MONTHLY_REPORT_TIME") ||
+                process.env.MONTHLY_REPORT_TIME ||
+                undefined,
+
+            // string passthru
+            MONTHLY_REPORT_TEMPLATE:
+                runtime.getSetting("MONTHLY_REPORT_TEMPLATE") ||
+                process.env.MONTHLY_REPORT_TEMPLATE ||
+                undefined,
+
+            // array of report profiles, from the character file only
+            DAILY_REPORT_PROFILES: (
+                runtime.character as { twitterReports?: unknown } | undefined
+            )?.twitterReports,
         };
 
-        return twitterEnvSchema.parse(twitterConfig);
+        const config = twitterEnvSchema.parse(twitterConfig);
+
+        const needsDiscord = (targets: DailyReportTarget[], channelIds: string[]) =>
+            targets.includes("discord") &&
+            (!config.DAILY_REPORT_DISCORD_BOT_TOKEN || !channelIds.length);
+        const discordIssues: z.ZodIssue[] = [
+            ...(needsDiscord(config.DAILY_REPORT_TARGETS, config.DAILY_REPORT_DISCORD_CHANNEL_IDS)
+                ? [["DAILY_REPORT_DISCORD_CHANNEL_IDS"]]
+                : []),
+            ...config.DAILY_REPORT_PROFILES.flatMap((profile, index) => {
+                const targets = profile.targets ?? config.DAILY_REPORT_TARGETS;
+                const channelIds =
+                    profile.discordChannelIds ?? config.DAILY_REPORT_DISCORD_CHANNEL_IDS;
+                return [
+                    ...(needsDiscord(targets, channelIds)
+                        ? [["DAILY_REPORT_PROFILES", index, "discordChannelIds"]]
+                        : []),
+                    ...(profile.languages ?? []).flatMap((language, languageIndex) =>
+                        typeof language === "object" &&
+                        needsDiscord(
+                            language.targets ?? targets,
+                            language.discordChannelIds ?? channelIds
+                        )
+                            ? [[
+                                  "DAILY_REPORT_PROFILES",
+                                  index,
+                                  "languages",
+                                  languageIndex,
+                                  "discordChannelIds",
+                              ]]
+                            : []
+                    ),
+                ];
+            }),
+        ].map((path) => ({
+            code: z.ZodIssueCode.custom,
+            path,
+            message:
+                "The discord report target needs a bot token and at least one channel ID",
+        }));
+        if (discordIssues.length) {
+            throw new ZodError(discordIssues);
+        }
+
+        return config;
     } catch (error) {
         if (error instanceof ZodError) {
             const errorMessages = error.errors
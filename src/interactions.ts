@@ -18,7 +18,13 @@ import {
     ServiceType
 } from "@elizaos/core";
 import type { ClientBase } from "./base";
-import { buildConversationThread, sendTweet, wait } from "./utils.ts";
+import { buildConversationThread, fetchMediaData, wait } from "./utils.ts";
+import { TweetPublisher } from "./publisher.ts";
+import {
+    formatSentiment,
+    LexiconSentimentAnalyzer,
+    type SentimentAnalyzer,
+} from "./report/sentiment.ts";
 
 export const twitterMessageHandlerTemplate =
     `
@@ -97,10 +103,19 @@ export class TwitterInteractionClient {
     client: ClientBase;
     runtime: IAgentRuntime;
     private isDryRun: boolean;
-    constructor(client: ClientBase, runtime: IAgentRuntime) {
+    private sentimentAnalyzer: SentimentAnalyzer;
+    private publisher: TweetPublisher;
+    constructor(
+        client: ClientBase,
+        runtime: IAgentRuntime,
+        publisher: TweetPublisher = new TweetPublisher(client, runtime)
+    ) {
         this.client = client;
         this.runtime = runtime;
+        this.publisher = publisher;
         this.isDryRun = this.client.twitterConfig.TWITTER_DRY_RUN;
+        // Mentions are scored one at a time, too often for a model call each
+        this.sentimentAnalyzer = new LexiconSentimentAnalyzer();
     }
 
     async start() {
@@ -332,7 +347,15 @@ export class TwitterInteractionClient {
   From: ${tweet.name} (@${tweet.username})
   Text: ${tweet.text}`;
         };
-        const currentPost = formatTweet(tweet);
+        let currentPost = formatTweet(tweet);
+        try {
+            const [sentiment] = await this.sentimentAnalyzer.analyze([tweet.text ?? ""]);
+            elizaLogger.log(`Tweet ${tweet.id} sentiment: ${formatSentiment(sentiment)}`);
+            currentPost += `
+  Sentiment: ${formatSentiment(sentiment)}`;
+        } catch (error) {
+            elizaLogger.warn(`Failed to score the sentiment of tweet ${tweet.id}:`, error);
+        }
 
         const formattedConversation = thread
             .map(
@@ -482,17 +505,19 @@ export class TwitterInteractionClient {
                 );
             } else {
                 try {
+                    // The publisher remembers the reply, the last tweet with the response action
                     const callback: HandlerCallback = async (
                         response: Content,
                         tweetId?: string
                     ) => {
-                        const memories = await sendTweet(
-                            this.client,
-                            response,
-                            message.roomId,
-                            this.client.twitterConfig.TWITTER_USERNAME,
-                            tweetId || tweet.id
-                        );
+                        const { memories } = await this.publisher.publish(response.text, {
+                            roomId: message.roomId,
+                            inReplyTo: tweetId || tweet.id,
+                            mediaData: response.attachments?.length
+                                ? await fetchMediaData(response.attachments)
+                                : undefined,
+                            action: response.action,
+                        });
                         return memories;
                     };
 
@@ -513,26 +538,15 @@ export class TwitterInteractionClient {
                             embedding: getEmbeddingZeroVector(),
                             createdAt: Date.now(),
                         }];
+                        await this.runtime.messageManager.createMemory(
+                            responseMessages[0]
+                        );
                     }
 
                     state = (await this.runtime.updateRecentMessageState(
                         state
                     )) as State;
 
-                    for (const responseMessage of responseMessages) {
-                        if (
-                            responseMessage ===
-                            responseMessages[responseMessages.length - 1]
-                        ) {
-                            responseMessage.content.action = response.action;
-                        } else {
-                            responseMessage.content.action = "CONTINUE";
-                        }
-                        await this.runtime.messageManager.createMemory(
-                            responseMessage
-                        );
-                    }
-
                     const responseTweetId =
                     responseMessages[responseMessages.length - 1]?.content
                         ?.tweetId;
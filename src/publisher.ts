@@ -0,0 +1,245 @@
+import {
+    elizaLogger,
+    getEmbeddingZeroVector,
+    stringToUuid,
+    truncateToCompleteSentence,
+    type IAgentRuntime,
+    type Memory,
+    type UUID,
+} from "@elizaos/core";
+import type { Tweet } from "agent-twitter-client";
+import type { ClientBase } from "./base.ts";
+import { DEFAULT_MAX_TWEET_LENGTH } from "./environment.ts";
+import { getWeightedLength } from "./report/format.ts";
+import type { MediaData } from "./types.ts";
+import { deduplicateMentions, splitTweetContent, wait } from "./utils.ts";
+
+export interface PublishOptions {
+    /** Room the posted tweets are remembered in */
+    roomId: UUID;
+    /** Tweet the first tweet replies to, later thread tweets reply to the previous one */
+    inReplyTo?: string;
+    /** Tweet the first tweet quotes */
+    quote?: string;
+    /** Attached to the first tweet */
+    mediaData?: MediaData[];
+    /** Remembered for the first tweet instead of its posted text, e.g. the raw model output */
+    memoryText?: string;
+    /** Recorded on the memory of the last tweet, the others get CONTINUE */
+    action?: string;
+    /** Records the tweet as the last post, which paces the post loop */
+    updateLastPost?: boolean;
+}
+
+export interface PublishResult {
+    tweets: Tweet[];
+    /** Memories stored for the tweets, in the same order */
+    memories: Memory[];
+}
+
+/**
+ * The created tweet of a create_tweet or notetweet_create response, or
+ * undefined when the response carries none (errors, rate limits).
+ */
+export function parseTweetResult(body: any): any {
+    return (
+        body?.data?.create_tweet?.tweet_results?.result ??
+        body?.data?.notetweet_create?.tweet_results?.result
+    );
+}
+
+/**
+ * Builds a tweet from a created tweet result. Timestamps are in seconds,
+ * like scraped tweets.
+ */
+export function toPostedTweet(
+    result: any,
+    profile: { id: string; username: string; screenName?: string }
+): Tweet {
+    const legacy = result.legacy ?? {};
+    const createdAt = legacy.created_at ? new Date(legacy.created_at) : new Date();
+    return {
+        id: result.rest_id,
+        name: profile.screenName,
+        username: profile.username,
+        text: result.note_tweet?.note_tweet_results?.result?.text ?? legacy.full_text,
+        conversationId: legacy.conversation_id_str,
+        timestamp: Math.floor(createdAt.getTime() / 1000),
+        timeParsed: createdAt,
+        userId: legacy.user_id_str ?? profile.id,
+        inReplyToStatusId: legacy.in_reply_to_status_id_str,
+        permanentUrl: `https://twitter.com/${profile.username}/status/${result.rest_id}`,
+        hashtags: [],
+        mentions: [],
+        photos: [],
+        thread: [],
+        urls: [],
+        videos: [],
+    } as Tweet;
+}
+
+/**
+ * Posts every outbound tweet of the client: standalone posts, replies,
+ * quotes, threads and media. Content longer than MAX_TWEET_LENGTH becomes
+ * a thread; a tweet above the standard length becomes a note tweet, and
+ * falls back to a standard tweet cut at a sentence when note tweets are
+ * not available to the account. Posted tweets are cached and remembered
+ * in the given room.
+ */
+export class TweetPublisher {
+    client: ClientBase;
+    runtime: IAgentRuntime;
+
+    constructor(client: ClientBase, runtime: IAgentRuntime) {
+        this.client = client;
+        this.runtime = runtime;
+    }
+
+    /**
+     * Posts `text`, split into a thread when it is longer than
+     * MAX_TWEET_LENGTH. Repeated leading mentions of replies are dropped.
+     */
+    async publish(text: string, options: PublishOptions): Promise<PublishResult> {
+        const parts = splitTweetContent(text.trim(), this.client.twitterConfig.MAX_TWEET_LENGTH);
+        return this.publishThread(
+            options.inReplyTo ? parts.map((part) => deduplicateMentions(part).trim()) : parts,
+            options
+        );
+    }
+
+    /**
+     * Posts the parts in order, each one replying to the previous tweet.
+     * Throws when the first part fails, so nothing is public and the whole
+     * thread can be retried; later failures stop the thread and are logged.
+     */
+    async publishThread(parts: string[], options: PublishOptions): Promise<PublishResult> {
+        const tweets: Tweet[] = [];
+        let inReplyTo = options.inReplyTo;
+
+        for (const part of parts) {
+            try {
+                const tweet = await this.sendTweet(part, {
+                    inReplyTo,
+                    quote: tweets.length ? undefined : options.quote,
+                    mediaData: tweets.length ? undefined : options.mediaData,
+                });
+                tweets.push(tweet);
+                inReplyTo = tweet.id;
+            } catch (error) {
+                if (!tweets.length) {
+                    throw error;
+                }
+                elizaLogger.error(
+                    `Thread stopped after ${tweets.length}/${parts.length} tweets:`,
+                    error
+                );
+                break;
+            }
+
+            if (tweets.length < parts.length) {
+                await wait(1000, 2000); // avoid rate limiting between thread parts
+            }
+        }
+
+        return { tweets, memories: await this.remember(tweets, options) };
+    }
+
+    /**
+     * Sends a single tweet and returns it. Throws when the response has no
+     * created tweet.
+     */
+    private async sendTweet(
+        text: string,
+        { inReplyTo, quote, mediaData }: Pick<PublishOptions, "inReplyTo" | "quote" | "mediaData">
+    ): Promise<Tweet> {
+        const { twitterClient } = this.client;
+        let body: any;
+
+        if (quote) {
+            const response = await this.client.requestQueue.add(() =>
+                twitterClient.sendQuoteTweet(text, quote, mediaData ? { mediaData } : undefined)
+            );
+            body = await response.json();
+        } else if (getWeightedLength(text) > DEFAULT_MAX_TWEET_LENGTH) {
+            body = await this.client.requestQueue.add(() =>
+                twitterClient.sendNoteTweet(text, inReplyTo, mediaData)
+            );
+            if (body?.errors?.length) {
+                elizaLogger.warn(
+                    "Note tweet failed, posting a standard tweet instead:",
+                    body.errors
+                );
+                return this.sendTweet(
+                    truncateToCompleteSentence(text, DEFAULT_MAX_TWEET_LENGTH),
+                    { inReplyTo, mediaData }
+                );
+            }
+        } else {
+            const response = await this.client.requestQueue.add(() =>
+                twitterClient.sendTweet(text, inReplyTo, mediaData)
+            );
+            body = await response.json();
+        }
+
+        const result = parseTweetResult(body);
+        if (!result) {
+            throw new Error(`Bad tweet response: ${JSON.stringify(body)}`);
+        }
+
+        const tweet = toPostedTweet(result, this.client.profile);
+        elizaLogger.log(`Tweet posted:\n ${tweet.permanentUrl}`);
+        return tweet;
+    }
+
+    /**
+     * Caches the posted tweets and stores them as memories of the agent,
+     * and records the last post when asked to.
+     */
+    private async remember(tweets: Tweet[], options: PublishOptions): Promise<Memory[]> {
+        if (!tweets.length) {
+            return [];
+        }
+
+        const { runtime } = this;
+        if (options.updateLastPost) {
+            await runtime.cacheManager.set(`twitter/${this.client.profile.username}/lastPost`, {
+                id: tweets[tweets.length - 1].id,
+                timestamp: Date.now(),
+            });
+        }
+
+        await runtime.ensureRoomExists(options.roomId);
+        await runtime.ensureParticipantInRoom(runtime.agentId, options.roomId);
+
+        const memories: Memory[] = tweets.map((tweet, index) => ({
+            id: stringToUuid(tweet.id + "-" + runtime.agentId),
+            userId: runtime.agentId,
+            agentId: runtime.agentId,
+            content: {
+                tweetId: tweet.id,
+                text: (index === 0 && options.memoryText?.trim()) || tweet.text,
+                url: tweet.permanentUrl,
+                source: "twitter",
+                inReplyTo: tweet.inReplyToStatusId
+                    ? stringToUuid(tweet.inReplyToStatusId + "-" + runtime.agentId)
+                    : undefined,
+                ...(index === 0 && options.quote ? { quote: options.quote } : {}),
+                ...(options.action
+                    ? { action: index === tweets.length - 1 ? options.action : "CONTINUE" }
+                    : {}),
+            },
+            roomId: options.roomId,
+            embedding: getEmbeddingZeroVector(),
+            createdAt: tweet.timestamp * 1000,
+        }));
+
+        for (const tweet of tweets) {
+            await this.client.cacheTweet(tweet);
+        }
+        for (const memory of memories) {
+            await runtime.messageManager.createMemory(memory);
+        }
+
+        return memories;
+    }
+}
@@ -0,0 +1,144 @@
+import type { Memory, UUID } from "@elizaos/core";
+import type { Tweet } from "agent-twitter-client";
+import type { PendingPost, PendingPostResolution } from "../approval";
+import type { ReportWindow } from "./backfill";
+import {
+    DEFAULT_ENGAGEMENT_WEIGHTS,
+    scoreTweet,
+    type EngagementWeights,
+} from "./engagement";
+
+export const AGENT_ACTIVITY_HEADING = "🤖 Agent Activity";
+
+// Timeline actions as processTimelineActions records them, dry runs excluded
+const TIMELINE_ACTIONS = ["like", "retweet", "quote"] as const;
+
+/**
+ * What the agent itself did on Twitter during the report window.
+ */
+export interface AgentActivity {
+    /** Tweets and threads that are not replies or quotes, including reports */
+    posts: number;
+    replies: number;
+    likes: number;
+    retweets: number;
+    quotes: number;
+    approvals: {
+        /** Posts still waiting for a decision or their publish time */
+        pending: number;
+        rejected: number;
+        expired: number;
+    };
+    topTweet: {
+        id: string;
+        text: string;
+        permanentUrl: string;
+        likes: number;
+        retweets: number;
+    } | null;
+}
+
+export interface AgentActivityInput {
+    agentId: UUID;
+    window: ReportWindow;
+    /** Memories of the agent's rooms, including the verification room */
+    memories: Memory[];
+    pendingPosts: PendingPost[];
+    /** The agent's own tweets of the window, with their engagement */
+    ownTweets: Tweet[];
+    weights?: EngagementWeights;
+}
+
+/**
+ * Counts the agent's posts and replies from the memories it stored for
+ * them, its likes, retweets and quotes from the actions recorded on the
+ * timeline tweets it processed, and the approval decisions from the
+ * verification room. Timeline actions are dated by the tweet they were
+ * taken on.
+ */
+export function computeAgentActivity({
+    agentId,
+    window,
+    memories,
+    pendingPosts,
+    ownTweets,
+    weights = DEFAULT_ENGAGEMENT_WEIGHTS,
+}: AgentActivityInput): AgentActivity {
+    const inWindow = memories.filter(
+        (memory) =>
+            memory.createdAt >= window.since.getTime() &&
+            memory.createdAt < window.until.getTime()
+    );
+
+    const ownTweetMemories = inWindow.filter(
+        (memory) =>
+            memory.userId === agentId &&
+            memory.content.source === "twitter" &&
+            memory.content.url
+    );
+    // Thread tweets reply to the agent's previous tweet, only the first one counts.
+    // Quotes are counted from the timeline actions below.
+    const ownIds = new Set(ownTweetMemories.map((memory) => memory.id));
+    const posts = ownTweetMemories.filter(
+        (memory) => !memory.content.inReplyTo && !memory.content.quote
+    ).length;
+    const replies = ownTweetMemories.filter(
+        (memory) => memory.content.inReplyTo && !ownIds.has(memory.content.inReplyTo)
+    ).length;
+
+    const actions = inWindow.flatMap((memory) =>
+        typeof memory.content.action === "string" ? memory.content.action.split(",") : []
+    );
+    const countAction = (action: (typeof TIMELINE_ACTIONS)[number]) =>
+        actions.filter((executed) => executed === action).length;
+
+    const resolutions = inWindow
+        .map((memory) => memory.content.metadata as { taskType?: string; resolution?: PendingPostResolution })
+        .filter((metadata) => metadata?.taskType === "tweetVerificationCleanup")
+        .map((metadata) => metadata.resolution);
+
+    const top = ownTweets.reduce<Tweet | null>(
+        (best, tweet) =>
+            !best || scoreTweet(tweet, weights) > scoreTweet(best, weights) ? tweet : best,
+        null
+    );
+
+    return {
+        posts,
+        replies,
+        likes: countAction("like"),
+        retweets: countAction("retweet"),
+        quotes: countAction("quote"),
+        approvals: {
+            pending: pendingPosts.length,
+            rejected: resolutions.filter((resolution) => resolution === "rejected").length,
+            expired: resolutions.filter((resolution) => resolution === "expired").length,
+        },
+        topTweet: top
+            ? {
+                  id: top.id,
+                  text: top.text,
+                  permanentUrl: top.permanentUrl,
+                  likes: top.likes ?? 0,
+                  retweets: top.retweets ?? 0,
+              }
+            : null,
+    };
+}
+
+export function formatAgentActivitySection(activity: AgentActivity): string {
+    const { approvals, topTweet } = activity;
+    return [
+        AGENT_ACTIVITY_HEADING,
+        `• ${activity.posts} tweet${activity.posts === 1 ? "" : "s"}, ${activity.replies} repl${activity.replies === 1 ? "y" : "ies"}`,
+        `• ${activity.likes} likes, ${activity.retweets} RTs, ${activity.quotes} quotes`,
+        ...(approvals.pending || approvals.rejected || approvals.expired
+            ? [
+                  `• Approvals: ${approvals.pending} pending, ${approvals.rejected} rejected, ${approvals.expired} expired`,
+              ]
+            : []),
+        ...(topTweet
+            ? [`• Top post: ${topTweet.likes} likes, ${topTweet.retweets} RTs ${topTweet.permanentUrl}`]
+            : []),
+    ].join("\n");
+}
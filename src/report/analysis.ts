@@ -0,0 +1,136 @@
+import {
+    cleanJsonResponse,
+    composeContext,
+    elizaLogger,
+    generateText,
+    ModelClass,
+    type IAgentRuntime,
+    type State,
+} from "@elizaos/core";
+import { z } from "zod";
+import { dailyAnalysisRepairTemplate, dailyAnalysisTemplate } from "./templates";
+
+const DEFAULT_MAX_ANALYSIS_ATTEMPTS = 3;
+
+const tweetIdSchema = z.union([z.string(), z.number()]).transform(String);
+
+/**
+ * Structure the model must return for the daily tweet analysis.
+ */
+export const dailyAnalysisSchema = z.object({
+    themes: z.array(
+        z.object({
+            name: z.string().trim().min(1),
+            quantity: z.coerce.number().int().nonnegative(),
+            emotion: z
+                .string()
+                .transform((emotion) => emotion.trim().toLowerCase())
+                .pipe(z.enum(["positive", "neutral", "negative"])),
+        })
+    ),
+    trends: z.array(z.string().trim().min(1)),
+    top_mentions: z.array(z.string().trim().min(1)),
+    notable_tweets: z.array(tweetIdSchema),
+});
+
+export type DailyAnalysis = z.infer<typeof dailyAnalysisSchema>;
+
+export type DailyAnalysisResult = {
+    analysis: DailyAnalysis;
+    /** Every prompt sent to the model, including repair prompts */
+    prompts: string[];
+};
+
+export type DailyAnalysisParseResult = {
+    data: DailyAnalysis | null;
+    error: string | null;
+};
+
+/**
+ * Extracts the JSON object from a model response and validates it
+ * against `dailyAnalysisSchema`. On failure `data` is null and `error`
+ * describes what is wrong in a form that can be fed back to the model.
+ */
+export function parseDailyAnalysis(text: string): DailyAnalysisParseResult {
+    const cleaned = cleanJsonResponse(text ?? "");
+    const start = cleaned.indexOf("{");
+    const end = cleaned.lastIndexOf("}");
+
+    if (start === -1 || end <= start) {
+        return { data: null, error: "Response does not contain a JSON object" };
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(cleaned.slice(start, end + 1));
+    } catch (error) {
+        return {
+            data: null,
+            error: `Response is not valid JSON: ${(error as Error).message}`,
+        };
+    }
+
+    const result = dailyAnalysisSchema.safeParse(json);
+    if (!result.success) {
+        return {
+            data: null,
+            error: result.error.errors
+                .map((err) => `${err.path.join(".") || "(root)"}: ${err.message}`)
+                .join("\n"),
+        };
+    }
+
+    return { data: result.data, error: null };
+}
+
+/**
+ * Generates the daily analysis and validates it. A malformed response is
+ * sent back to the model together with the validation errors, up to
+ * `maxAttempts` generations in total. `template` replaces the default
+ * analysis prompt; it must ask for the same JSON fields.
+ */
+export async function generateDailyAnalysis(
+    runtime: IAgentRuntime,
+    state: State,
+    maxAttempts = DEFAULT_MAX_ANALYSIS_ATTEMPTS,
+    template = dailyAnalysisTemplate
+): Promise<DailyAnalysisResult> {
+    let context = composeContext({
+        state,
+        template,
+    });
+    let lastError = "";
+    const prompts: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        prompts.push(context);
+        const response = await generateText({
+            runtime,
+            context,
+            modelClass: ModelClass.LARGE,
+        });
+
+        const result = parseDailyAnalysis(response);
+        if (result.data) {
+            return { analysis: result.data, prompts };
+        }
+
+        lastError = result.error;
+        elizaLogger.warn(
+            `Daily analysis attempt ${attempt}/${maxAttempts} is malformed:\n${lastError}`
+        );
+
+        context = composeContext({
+            state: {
+                ...state,
+                previousResponse: response,
+                validationErrors: lastError,
+            },
+            template: template + dailyAnalysisRepairTemplate,
+        });
+    }
+
+    throw new Error(
+        `Daily analysis is still malformed after ${maxAttempts} attempts:\n${lastError}`
+    );
+}
@@ -0,0 +1,407 @@
+import fs from "fs";
+import path from "path";
+import { elizaLogger } from "@elizaos/core";
+import type { Tweet } from "agent-twitter-client";
+import type { DailyReportArchiveFormat } from "../environment";
+import type { DailyAnalysis } from "./analysis";
+import { formatSentiment, type SentimentScore } from "./sentiment";
+import type { SentimentCounts } from "./snapshots";
+import { getTweetTime } from "./collector";
+import type { UserActivity } from "./userActivity";
+import type { SharedLinks } from "./links";
+import { REPORT_SOURCE_LABELS, type ReportSourceKind } from "./sources";
+import type { EngagementCounts } from "./engagement";
+
+const INDEX_FILE = "index.json";
+
+const FILE_EXTENSIONS: Record<DailyReportArchiveFormat, string> = {
+    markdown: "md",
+    html: "html",
+    json: "json",
+};
+
+export interface ArchivedTweet {
+    id: string;
+    username: string;
+    text: string;
+    permanentUrl: string;
+    createdAt: string | null;
+    likes: number;
+    retweets: number;
+    sentiment: SentimentScore | null;
+    source?: ReportSourceKind;
+}
+
+/**
+ * Tweets the report counted as one story, with their summed engagement.
+ */
+export interface ArchivedStory {
+    /** ID of the lead tweet */
+    id: string;
+    tweetIds: string[];
+    authors: string[];
+    counts: EngagementCounts;
+}
+
+export interface ArchivedPrompt {
+    name: string;
+    text: string;
+}
+
+/**
+ * Everything that went into one published report.
+ */
+export interface ReportArchiveEntry {
+    date: string;
+    generatedAt: string;
+    report: string;
+    /** The report in the profile's other languages */
+    translations?: { language: string; report: string }[];
+    analysis: DailyAnalysis;
+    stats: {
+        totalTweets: number;
+        topHashtags: string[];
+        sentiment: SentimentCounts;
+    };
+    userActivity: UserActivity[];
+    sharedLinks: SharedLinks;
+    /** Stories of more than one tweet */
+    stories?: ArchivedStory[];
+    tweets: ArchivedTweet[];
+    prompts: ArchivedPrompt[];
+    /** Content of the report that could not be traced to the source data */
+    citations?: {
+        unknownCitations: string[];
+        unverifiedFigures: string[];
+    };
+}
+
+export interface ArchiveIndexEntry {
+    date: string;
+    generatedAt: string;
+    totalTweets: number;
+    /** Archive files of the day, relative to the archive directory */
+    files: string[];
+}
+
+export function toArchivedTweet(
+    tweet: Tweet,
+    sentiment: SentimentScore | null = null,
+    source?: ReportSourceKind
+): ArchivedTweet {
+    const createdAt = getTweetTime(tweet);
+    return {
+        id: tweet.id,
+        username: tweet.username,
+        text: tweet.text,
+        permanentUrl: tweet.permanentUrl,
+        createdAt: createdAt ? new Date(createdAt).toISOString() : null,
+        likes: tweet.likes ?? 0,
+        retweets: tweet.retweets ?? 0,
+        sentiment: sentiment ? { score: sentiment.score, label: sentiment.label } : null,
+        source,
+    };
+}
+
+// Tracked accounts are the default source, only the wider conversation is marked
+const formatSource = (tweet: ArchivedTweet) =>
+    tweet.source === "search" ? ` [${REPORT_SOURCE_LABELS.search}]` : "";
+
+const formatArchivedStory = (story: ArchivedStory) =>
+    `${story.id}: ${story.tweetIds.length} tweets by ${story.authors.map((author) => `@${author}`).join(", ")}, ${story.counts.likes} likes, ${story.counts.retweets} retweets (${story.tweetIds.join(", ")})`;
+
+export function renderArchiveJson(entry: ReportArchiveEntry): string {
+    return JSON.stringify(entry, null, 2);
+}
+
+export function renderArchiveMarkdown(entry: ReportArchiveEntry): string {
+    const { analysis, stats } = entry;
+    const fence = (text: string) => ["```", text, "```"].join("\n");
+
+    return [
+        `# Daily Report ${entry.date}`,
+        "",
+        `Generated at ${entry.generatedAt}`,
+        "",
+        "## Report",
+        "",
+        entry.report,
+        "",
+        ...(entry.translations ?? []).flatMap((translation) => [
+            `## Report (${translation.language})`,
+            "",
+            translation.report,
+            "",
+        ]),
+        "## Analysis",
+        "",
+        `- Tweets analyzed: ${stats.totalTweets}`,
+        `- Top hashtags: ${stats.topHashtags.map((tag) => `#${tag}`).join(", ") || "none"}`,
+        `- Sentiment: positive ${stats.sentiment.positive}, neutral ${stats.sentiment.neutral}, negative ${stats.sentiment.negative}`,
+        "",
+        "### Themes",
+        "",
+        ...analysis.themes.map(
+            (theme) => `- ${theme.name} (${theme.quantity} tweets, ${theme.emotion})`
+        ),
+        "",
+        "### Trends",
+        "",
+        ...analysis.trends.map((trend) => `- ${trend}`),
+        "",
+        `Top mentions: ${analysis.top_mentions.join(", ") || "none"}`,
+        "",
+        `Notable tweets: ${analysis.notable_tweets.join(", ") || "none"}`,
+        "",
+        "## Account Activity",
+        "",
+        ...entry.userActivity.map(
+            (user) =>
+                `- @${user.username}: ${user.tweetCount} tweets, ${user.likes} likes, ${user.retweets} retweets, ${user.replies} replies${user.summary ? ` - ${user.summary}` : ""}`
+        ),
+        "",
+        "## Most Shared Links",
+        "",
+        ...entry.sharedLinks.links.map(
+            (link) => `- ${link.url} (${link.sharers.map((user) => `@${user}`).join(", ")})`
+        ),
+        "",
+        ...(entry.stories?.length
+            ? [
+                  "## Collapsed Stories",
+                  "",
+                  ...entry.stories.map((story) => `- ${formatArchivedStory(story)}`),
+                  "",
+              ]
+            : []),
+        ...(entry.citations
+            ? [
+                  "## Citation Check",
+                  "",
+                  `- Removed citations: ${entry.citations.unknownCitations.join(", ") || "none"}`,
+                  `- Unverified figures: ${entry.citations.unverifiedFigures.join(", ") || "none"}`,
+                  "",
+              ]
+            : []),
+        "## Source Tweets",
+        "",
+        ...entry.tweets.map(
+            (tweet) =>
+                `- [@${tweet.username}](${tweet.permanentUrl}) ${tweet.createdAt ?? ""}: ${tweet.text.replace(/\s+/g, " ")}${tweet.sentiment ? ` (${formatSentiment(tweet.sentiment)})` : ""}${formatSource(tweet)}`
+        ),
+        "",
+        "## Prompts",
+        "",
+        ...entry.prompts.flatMap((prompt) => [`### ${prompt.name}`, "", fence(prompt.text), ""]),
+    ].join("\n");
+}
+
+const escapeHtml = (text: string) =>
+    text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+export function renderArchiveHtml(entry: ReportArchiveEntry): string {
+    const { analysis, stats } = entry;
+    const list = (items: string[]) =>
+        `<ul>${items.map((item) => `<li>${item}</li>`).join("")}</ul>`;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Daily Report ${escapeHtml(entry.date)}</title>
+</head>
+<body>
+<h1>Daily Report ${escapeHtml(entry.date)}</h1>
+<p>Generated at ${escapeHtml(entry.generatedAt)}</p>
+<h2>Report</h2>
+<pre>${escapeHtml(entry.report)}</pre>
+${(entry.translations ?? [])
+    .map(
+        (translation) =>
+            `<h2>Report (${escapeHtml(translation.language)})</h2>\n<pre>${escapeHtml(translation.report)}</pre>\n`
+    )
+    .join("")}<h2>Analysis</h2>
+${list([
+    `Tweets analyzed: ${stats.totalTweets}`,
+    `Top hashtags: ${escapeHtml(stats.topHashtags.map((tag) => `#${tag}`).join(", ") || "none")}`,
+    `Sentiment: positive ${stats.sentiment.positive}, neutral ${stats.sentiment.neutral}, negative ${stats.sentiment.negative}`,
+])}
+<h3>Themes</h3>
+${list(analysis.themes.map((theme) => `${escapeHtml(theme.name)} (${theme.quantity} tweets, ${theme.emotion})`))}
+<h3>Trends</h3>
+${list(analysis.trends.map(escapeHtml))}
+<p>Top mentions: ${escapeHtml(analysis.top_mentions.join(", ") || "none")}</p>
+<p>Notable tweets: ${escapeHtml(analysis.notable_tweets.join(", ") || "none")}</p>
+<h2>Account Activity</h2>
+${list(
+    entry.userActivity.map(
+        (user) =>
+            `@${escapeHtml(user.username)}: ${user.tweetCount} tweets, ${user.likes} likes, ${user.retweets} retweets, ${user.replies} replies${user.summary ? ` - ${escapeHtml(user.summary)}` : ""}`
+    )
+)}
+<h2>Most Shared Links</h2>
+${list(
+    entry.sharedLinks.links.map(
+        (link) =>
+            `<a href="${escapeHtml(link.url)}">${escapeHtml(link.url)}</a> (${escapeHtml(link.sharers.map((user) => `@${user}`).join(", "))})`
+    )
+)}
+${
+    entry.stories?.length
+        ? `<h2>Collapsed Stories</h2>\n${list(entry.stories.map((story) => escapeHtml(formatArchivedStory(story))))}\n`
+        : ""
+}${
+    entry.citations
+        ? `<h2>Citation Check</h2>\n${list([
+              `Removed citations: ${escapeHtml(entry.citations.unknownCitations.join(", ") || "none")}`,
+              `Unverified figures: ${escapeHtml(entry.citations.unverifiedFigures.join(", ") || "none")}`,
+          ])}\n`
+        : ""
+}<h2>Source Tweets</h2>
+${list(
+    entry.tweets.map(
+        (tweet) =>
+            `<a href="${escapeHtml(tweet.permanentUrl)}">@${escapeHtml(tweet.username)}</a> ${escapeHtml(tweet.createdAt ?? "")}: ${escapeHtml(tweet.text)}${tweet.sentiment ? ` (${formatSentiment(tweet.sentiment)})` : ""}${formatSource(tweet)}`
+    )
+)}
+<h2>Prompts</h2>
+${entry.prompts
+    .map((prompt) => `<h3>${escapeHtml(prompt.name)}</h3>\n<pre>${escapeHtml(prompt.text)}</pre>`)
+    .join("\n")}
+</body>
+</html>
+`;
+}
+
+const renderers: Record<DailyReportArchiveFormat, (entry: ReportArchiveEntry) => string> = {
+    markdown: renderArchiveMarkdown,
+    html: renderArchiveHtml,
+    json: renderArchiveJson,
+};
+
+export function renderArchiveIndexMarkdown(index: ArchiveIndexEntry[]): string {
+    return [
+        "# Daily Report Archive",
+        "",
+        ...index.map(
+            (day) =>
+                `- ${day.date} (${day.totalTweets} tweets): ${day.files
+                    .map((file) => `[${path.extname(file).slice(1)}](${file})`)
+                    .join(" ")}`
+        ),
+        "",
+    ].join("\n");
+}
+
+export function renderArchiveIndexHtml(index: ArchiveIndexEntry[]): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Daily Report Archive</title>
+</head>
+<body>
+<h1>Daily Report Archive</h1>
+<ul>
+${index
+    .map(
+        (day) =>
+            `<li>${escapeHtml(day.date)} (${day.totalTweets} tweets): ${day.files
+                .map((file) => `<a href="${escapeHtml(file)}">${path.extname(file).slice(1)}</a>`)
+                .join(" ")}</li>`
+    )
+    .join("\n")}
+</ul>
+</body>
+</html>
+`;
+}
+
+/**
+ * Writes one file per format and report date into `directory`, and keeps
+ * an index of all archived days (index.json, plus index.md / index.html
+ * for the enabled formats).
+ */
+export class ReportArchive {
+    private directory: string;
+    private formats: DailyReportArchiveFormat[];
+
+    constructor(directory: string, formats: DailyReportArchiveFormat[]) {
+        this.directory = directory;
+        this.formats = formats;
+    }
+
+    async write(entry: ReportArchiveEntry): Promise<string[]> {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+
+        const files: string[] = [];
+        for (const format of this.formats) {
+            const file = `${entry.date}.${FILE_EXTENSIONS[format]}`;
+            await fs.promises.writeFile(
+                path.join(this.directory, file),
+                renderers[format](entry),
+                "utf8"
+            );
+            files.push(file);
+        }
+
+        await this.updateIndex({
+            date: entry.date,
+            generatedAt: entry.generatedAt,
+            totalTweets: entry.stats.totalTweets,
+            files,
+        });
+
+        elizaLogger.log(`Archived daily report ${entry.date} to ${this.directory}`);
+        return files.map((file) => path.join(this.directory, file));
+    }
+
+    /**
+     * All archived days, newest first.
+     */
+    async readIndex(): Promise<ArchiveIndexEntry[]> {
+        try {
+            const content = await fs.promises.readFile(
+                path.join(this.directory, INDEX_FILE),
+                "utf8"
+            );
+            return JSON.parse(content);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    private async updateIndex(day: ArchiveIndexEntry): Promise<void> {
+        const index = (await this.readIndex())
+            .filter((entry) => entry.date !== day.date)
+            .concat(day)
+            .sort((a, b) => b.date.localeCompare(a.date));
+
+        await fs.promises.writeFile(
+            path.join(this.directory, INDEX_FILE),
+            JSON.stringify(index, null, 2),
+            "utf8"
+        );
+        if (this.formats.includes("markdown")) {
+            await fs.promises.writeFile(
+                path.join(this.directory, "index.md"),
+                renderArchiveIndexMarkdown(index),
+                "utf8"
+            );
+        }
+        if (this.formats.includes("html")) {
+            await fs.promises.writeFile(
+                path.join(this.directory, "index.html"),
+                renderArchiveIndexHtml(index),
+                "utf8"
+            );
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import type { Memory } from "@elizaos/core";
+import type { Tweet } from "agent-twitter-client";
+import { getTweetTime } from "./collector";
+import { getScheduledTime } from "./scheduler";
+
+const TWEET_URL_PATTERN = /(?:twitter|x)\.com\/(\w+)\/status\/(\d+)/i;
+
+/**
+ * The time range a report collects tweets from.
+ */
+export interface ReportWindow {
+    /** Inclusive */
+    since: Date;
+    /** Exclusive */
+    until: Date;
+}
+
+/**
+ * Window a report for `dateKey` covered when it ran on schedule: the
+ * `lookbackHours` before the report time on that date.
+ */
+export function getReportWindow(
+    dateKey: string,
+    time: string,
+    timeZone: string,
+    lookbackHours: number
+): ReportWindow {
+    const until = getScheduledTime(dateKey, time, timeZone);
+    return {
+        since: new Date(until.getTime() - lookbackHours * 60 * 60 * 1000),
+        until,
+    };
+}
+
+const formatSearchTime = (date: Date) =>
+    `${date.toISOString().slice(0, 19).replace("T", "_")}_UTC`;
+
+/**
+ * Restricts a search query to the window with the since:/until: operators,
+ * so searching past dates does not page through everything newer first.
+ */
+export function withSearchWindow(query: string, window: ReportWindow): string {
+    return `${query} since:${formatSearchTime(window.since)} until:${formatSearchTime(window.until)}`;
+}
+
+export function isInWindow(tweet: Tweet, window: ReportWindow): boolean {
+    const createdAt = getTweetTime(tweet);
+    return (
+        createdAt !== undefined &&
+        createdAt >= window.since.getTime() &&
+        createdAt < window.until.getTime()
+    );
+}
+
+/**
+ * Rebuilds a tweet from a stored memory, for tweets that are no longer in
+ * the tweet cache. Engagement metrics are not stored, so they are missing.
+ * Returns null for memories that are not tweets.
+ */
+export function tweetFromMemory(memory: Memory): Tweet | null {
+    const match = TWEET_URL_PATTERN.exec(memory.content?.url ?? "");
+    if (!match) {
+        return null;
+    }
+
+    const [, username, id] = match;
+    return {
+        id,
+        username,
+        text: memory.content.text,
+        permanentUrl: `https://twitter.com/${username}/status/${id}`,
+        timestamp: Math.floor(memory.createdAt / 1000),
+        hashtags: memory.content.text?.match(/#\w+/g)?.map((tag) => tag.slice(1)) ?? [],
+        mentions: [],
+        photos: [],
+        thread: [],
+        urls: [],
+        videos: [],
+    } as Tweet;
+}
@@ -0,0 +1,290 @@
+import { elizaLogger } from "@elizaos/core";
+import type { MediaData } from "../types";
+import type { SentimentCounts, SnapshotTheme } from "./snapshots";
+
+/**
+ * - stacked: theme bars above the sentiment split
+ * - columns: theme bars on the left, sentiment split on the right
+ */
+export type ReportCardLayout = "stacked" | "columns";
+
+export interface ReportCardColors {
+    background: string;
+    text: string;
+    muted: string;
+    /** Theme bar colors, repeated when there are more themes */
+    bars: string[];
+    positive: string;
+    neutral: string;
+    negative: string;
+}
+
+/**
+ * Look of a report profile's chart card.
+ */
+export interface ReportCardStyle {
+    layout: ReportCardLayout;
+    width: number;
+    height: number;
+    maxThemes: number;
+    colors: ReportCardColors;
+    /** Footer text, such as the agent's handle */
+    brand: string;
+    fontFamily: string;
+    /** Font file to render with, for hosts without system fonts */
+    fontFile?: string;
+}
+
+export const DEFAULT_REPORT_CARD_STYLE: ReportCardStyle = {
+    layout: "stacked",
+    // Twitter shows 16:9 images uncropped
+    width: 1200,
+    height: 675,
+    maxThemes: 5,
+    colors: {
+        background: "#15202b",
+        text: "#ffffff",
+        muted: "#8b98a5",
+        bars: ["#1d9bf0", "#7856ff", "#f91880", "#ffd400", "#00ba7c"],
+        positive: "#00ba7c",
+        neutral: "#8b98a5",
+        negative: "#f4212e",
+    },
+    brand: "",
+    fontFamily: "sans-serif",
+};
+
+/**
+ * What the card shows: the theme shares and the sentiment split of the
+ * report's tweets.
+ */
+export interface ReportCardData {
+    title: string;
+    subtitle: string;
+    themes: SnapshotTheme[];
+    sentiment: SentimentCounts;
+}
+
+/**
+ * A card waiting to be rendered when its report is published, so it can
+ * sit in the approval queue as plain data.
+ */
+export interface ReportCard {
+    data: ReportCardData;
+    style: ReportCardStyle;
+}
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const PADDING = 48;
+const MAX_LABEL_LENGTH = 28;
+
+const escapeXml = (text: string) =>
+    text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+const truncateLabel = (label: string) =>
+    label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+
+const percent = (count: number, total: number) =>
+    total ? Math.round((count / total) * 100) : 0;
+
+function text(
+    x: number,
+    y: number,
+    content: string,
+    size: number,
+    fill: string,
+    attributes = ""
+): string {
+    return `<text x="${x}" y="${y}" font-size="${size}" fill="${fill}"${attributes}>${escapeXml(content)}</text>`;
+}
+
+/**
+ * One labeled bar per theme, sized by its share of all themed tweets.
+ */
+function renderThemes(data: ReportCardData, style: ReportCardStyle, box: Box): string {
+    const { colors } = style;
+    const themes = [...data.themes]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, style.maxThemes);
+    const total = data.themes.reduce((sum, theme) => sum + theme.count, 0);
+
+    const elements = [text(box.x, box.y + 28, "Theme share", 28, colors.text, ' font-weight="bold"')];
+    if (!themes.length) {
+        return [...elements, text(box.x, box.y + 80, "No themes today", 24, colors.muted)].join("\n");
+    }
+
+    const top = box.y + 52;
+    const rowHeight = Math.min(72, (box.height - 52) / themes.length);
+    const barHeight = Math.max(8, rowHeight * 0.35);
+    const barWidth = box.width - 90;
+    const largestShare = percent(themes[0].count, total) || 1;
+
+    themes.forEach((theme, index) => {
+        const y = top + index * rowHeight;
+        const share = percent(theme.count, total);
+        const width = Math.max(4, (barWidth * share) / largestShare);
+
+        elements.push(
+            text(box.x, y + rowHeight * 0.4, truncateLabel(theme.name), 22, colors.text),
+            `<rect x="${box.x}" y="${y + rowHeight * 0.5}" width="${width}" height="${barHeight}" rx="${barHeight / 2}" fill="${colors.bars[index % colors.bars.length]}"/>`,
+            text(box.x + width + 12, y + rowHeight * 0.5 + barHeight * 0.85, `${share}%`, 22, colors.muted)
+        );
+    });
+
+    return elements.join("\n");
+}
+
+/**
+ * A single bar split into positive, neutral and negative, with a legend.
+ */
+function renderSentiment(data: ReportCardData, style: ReportCardStyle, box: Box): string {
+    const { colors } = style;
+    const { positive, neutral, negative } = data.sentiment;
+    const total = positive + neutral + negative;
+    const segments = [
+        { label: "Positive", count: positive, color: colors.positive },
+        { label: "Neutral", count: neutral, color: colors.neutral },
+        { label: "Negative", count: negative, color: colors.negative },
+    ];
+
+    const elements = [text(box.x, box.y + 28, "Sentiment", 28, colors.text, ' font-weight="bold"')];
+    const barY = box.y + 52;
+    const barHeight = 28;
+
+    if (!total) {
+        elements.push(
+            `<rect x="${box.x}" y="${barY}" width="${box.width}" height="${barHeight}" rx="6" fill="${colors.muted}" opacity="0.3"/>`
+        );
+    }
+
+    let x = box.x;
+    for (const segment of segments) {
+        const width = total ? (box.width * segment.count) / total : 0;
+        if (width > 0) {
+            elements.push(
+                `<rect x="${x}" y="${barY}" width="${width}" height="${barHeight}" fill="${segment.color}"/>`
+            );
+        }
+        x += width;
+    }
+
+    // Legend in a row when there is room, one entry per line otherwise
+    const inRow = box.width >= 540;
+    segments.forEach((segment, index) => {
+        const legendX = inRow ? box.x + index * (box.width / 3) : box.x;
+        const legendY = barY + barHeight + 36 + (inRow ? 0 : index * 36);
+        elements.push(
+            `<circle cx="${legendX + 8}" cy="${legendY - 7}" r="8" fill="${segment.color}"/>`,
+            text(
+                legendX + 24,
+                legendY,
+                `${segment.label} ${percent(segment.count, total)}%`,
+                22,
+                colors.text
+            )
+        );
+    });
+
+    return elements.join("\n");
+}
+
+/**
+ * The chart card as an SVG document.
+ */
+export function renderReportCardSvg(data: ReportCardData, style: ReportCardStyle): string {
+    const { width, height, colors } = style;
+    const contentTop = PADDING + 110;
+    const contentBottom = height - PADDING - 40;
+    const contentWidth = width - 2 * PADDING;
+
+    let themesBox: Box;
+    let sentimentBox: Box;
+    if (style.layout === "columns") {
+        const columnGap = 48;
+        const themesWidth = (contentWidth - columnGap) * 0.6;
+        themesBox = { x: PADDING, y: contentTop, width: themesWidth, height: contentBottom - contentTop };
+        sentimentBox = {
+            x: PADDING + themesWidth + columnGap,
+            y: contentTop,
+            width: contentWidth - themesWidth - columnGap,
+            height: contentBottom - contentTop,
+        };
+    } else {
+        const sentimentHeight = 130;
+        themesBox = {
+            x: PADDING,
+            y: contentTop,
+            width: contentWidth,
+            height: contentBottom - contentTop - sentimentHeight - 24,
+        };
+        sentimentBox = {
+            x: PADDING,
+            y: contentBottom - sentimentHeight,
+            width: contentWidth,
+            height: sentimentHeight,
+        };
+    }
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(style.fontFamily)}">`,
+        `<rect width="${width}" height="${height}" fill="${colors.background}"/>`,
+        text(PADDING, PADDING + 44, data.title, 44, colors.text, ' font-weight="bold"'),
+        text(PADDING, PADDING + 84, data.subtitle, 24, colors.muted),
+        renderThemes(data, style, themesBox),
+        renderSentiment(data, style, sentimentBox),
+        ...(style.brand
+            ? [text(width - PADDING, height - PADDING / 2, style.brand, 22, colors.muted, ' text-anchor="end"')]
+            : []),
+        "</svg>",
+    ].join("\n");
+}
+
+let resvgModule: Promise<typeof import("@resvg/resvg-js") | null> | undefined;
+
+/**
+ * Loads the rasterizer once. It is an optional native addon with
+ * per-platform binaries, so a host where it does not load posts reports
+ * without cards instead of failing.
+ */
+function loadResvg() {
+    resvgModule ??= import("@resvg/resvg-js").catch((error) => {
+        elizaLogger.warn("Report chart cards are disabled, @resvg/resvg-js could not be loaded:", error);
+        return null;
+    });
+    return resvgModule;
+}
+
+/**
+ * Rasterizes the chart card to a PNG tweet attachment. Rendering runs
+ * locally with system fonts, plus the style's font file if it has one.
+ * Returns null when the rasterizer is not available.
+ */
+export async function renderReportCard(card: ReportCard): Promise<MediaData | null> {
+    const resvg = await loadResvg();
+    if (!resvg) {
+        return null;
+    }
+
+    const { data, style } = card;
+    const renderer = new resvg.Resvg(renderReportCardSvg(data, style), {
+        font: {
+            loadSystemFonts: true,
+            fontFiles: style.fontFile ? [style.fontFile] : [],
+        },
+    });
+
+    return {
+        data: renderer.render().asPng(),
+        mediaType: "image/png",
+    };
+}
@@ -0,0 +1,235 @@
+import type { Tweet } from "agent-twitter-client";
+
+// Abbreviated figures ("1.2K") are rounded, so allow a little slack
+const FIGURE_TOLERANCE = 0.05;
+// "2M+" is traceable to any value up to this factor above it
+const LOWER_BOUND_TOLERANCE = 1.5;
+
+const TWEET_URL_PATTERN =
+    /https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/\w+\/status(?:es)?\/(\d+)[^\s)\]>]*/gi;
+const TWEET_ID_PATTERN = /(?<![\w/])\d{15,20}(?!\w)/g;
+// [1], [^1] and superscript markers never point anywhere in a tweet
+const FOOTNOTE_PATTERN = /\[\^?\d{1,2}\]|[¹²³⁴⁵⁶⁷⁸⁹⁰]+/g;
+// Markers glued to the end of a sentence, such as "efficiency.1"; digits
+// glued to the word itself are part of it, as in "Layer2" or "web3"
+const GLUED_FOOTNOTE_PATTERN = /(?<=[a-z)])([.,;:!?])\d{1,2}(?=\s|$)/gi;
+const FIGURE_PATTERN =
+    /(?<![\w.#@/:-])(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(\s?%|[kmb](?![a-z])|x(?![a-z]))?(\+)?/gi;
+// Parts of the text whose digits are not figures
+const NON_FIGURE_PATTERN =
+    /https?:\/\/\S+|[@#]\w+|\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}:\d{2}\b|\b\d{1,3}\/\d{1,3}\b/g;
+const BULLET_PATTERN = /^\s*(?:[•\-*▪◦·]|\d+[.)])\s/;
+
+const FIGURE_MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * What a report may cite: the collected tweets and the numbers the model
+ * was given.
+ */
+export interface CitationSources {
+    tweetIds: Set<string>;
+    figures: number[];
+}
+
+/**
+ * Result of checking one generated report.
+ */
+export interface CitationCheck {
+    /** The report with unknown tweet links, IDs and footnote markers removed */
+    text: string;
+    verifiedCitations: number;
+    unknownCitations: string[];
+    verifiedFigures: number;
+    unverifiedFigures: string[];
+    /** Share (0-1) of the checked citations and figures that is unverifiable */
+    unverifiedRatio: number;
+}
+
+interface Figure {
+    raw: string;
+    value: number;
+    /** Written as a lower bound, e.g. "2M+" */
+    lowerBound: boolean;
+}
+
+const maskNonFigures = (text: string) =>
+    text.replace(NON_FIGURE_PATTERN, (match) => " ".repeat(match.length));
+
+/**
+ * Numbers in `text` that state a quantity. Small bare integers ("3 themes"),
+ * years, dates, times, counters ("1/5") and tweet IDs are not figures.
+ */
+export function extractFigures(text: string): Figure[] {
+    const figures: Figure[] = [];
+    for (const match of maskNonFigures(text).matchAll(FIGURE_PATTERN)) {
+        const [raw, integer, decimals = "", unit = "", plus] = match;
+        const digits = integer.replace(/,/g, "");
+        if (digits.length >= 15) {
+            continue;
+        }
+
+        const suffix = unit.trim().toLowerCase();
+        const value =
+            Number.parseFloat(digits + decimals) * (FIGURE_MULTIPLIERS[suffix] ?? 1);
+        const isYear = !suffix && !decimals && value >= 1900 && value <= 2100;
+        if (isYear || (!suffix && !decimals && value < 10)) {
+            continue;
+        }
+
+        figures.push({ raw: raw.trim(), value, lowerBound: Boolean(plus) });
+    }
+    return figures;
+}
+
+/**
+ * Every number in `text`, including the ones `extractFigures` does not
+ * count as stated quantities, so they can back a figure in the report.
+ */
+function extractSourceNumbers(text: string): number[] {
+    return [...maskNonFigures(text).matchAll(FIGURE_PATTERN)].map(
+        ([, integer, decimals = "", unit = ""]) =>
+            Number.parseFloat(integer.replace(/,/g, "") + decimals) *
+            (FIGURE_MULTIPLIERS[unit.trim().toLowerCase()] ?? 1)
+    );
+}
+
+/**
+ * Collects the tweet IDs and numbers a report can be traced to:
+ * the collected tweets (text and engagement metrics) and any other data
+ * given to the model, as text or as plain numbers.
+ */
+export function buildCitationSources(
+    tweets: Tweet[],
+    sourceData: (string | number)[] = []
+): CitationSources {
+    const texts = [
+        ...tweets.map((tweet) => tweet.text ?? ""),
+        ...sourceData.filter((data): data is string => typeof data === "string"),
+    ];
+
+    return {
+        tweetIds: new Set(tweets.map((tweet) => tweet.id).filter(Boolean)),
+        figures: [
+            ...texts.flatMap(extractSourceNumbers),
+            ...tweets.flatMap((tweet) => [
+                tweet.likes,
+                tweet.retweets,
+                tweet.replies,
+                tweet.bookmarkCount,
+                tweet.views,
+            ]),
+            ...sourceData.filter((data): data is number => typeof data === "number"),
+        ].filter((value) => Number.isFinite(value)),
+    };
+}
+
+function isTraceable(figure: Figure, sources: CitationSources): boolean {
+    return sources.figures.some((value) =>
+        figure.lowerBound
+            ? value >= figure.value * (1 - FIGURE_TOLERANCE) &&
+              value <= figure.value * LOWER_BOUND_TOLERANCE
+            : Math.abs(value - figure.value) <=
+              Math.abs(figure.value) * FIGURE_TOLERANCE
+    );
+}
+
+const tidy = (text: string) =>
+    text
+        .split("\n")
+        .map((line) =>
+            line
+                .replace(/\(\s*\)|\[\s*\]/g, "")
+                .replace(/[ \t]{2,}/g, " ")
+                .replace(/\s+([.,;:!?])/g, "$1")
+                .replace(/\s+[-–—:]\s*$/, "")
+                .trimEnd()
+        )
+        .join("\n");
+
+/**
+ * Checks every tweet link, tweet ID, footnote marker and figure of a
+ * generated report against the source data. Citations of tweets that were
+ * not collected are removed from the text; figures that cannot be traced
+ * are only reported, since removing them would garble the sentence.
+ */
+export function verifyReportCitations(
+    report: string,
+    sources: CitationSources
+): CitationCheck {
+    let verifiedCitations = 0;
+    const unknownCitations: string[] = [];
+
+    const checkCitation = (citation: string, tweetId: string) => {
+        if (sources.tweetIds.has(tweetId)) {
+            verifiedCitations++;
+            return citation;
+        }
+        unknownCitations.push(citation);
+        return "";
+    };
+
+    const text = tidy(
+        report
+            .replace(TWEET_URL_PATTERN, (url, tweetId: string) =>
+                checkCitation(url, tweetId)
+            )
+            .replace(TWEET_ID_PATTERN, (tweetId) => checkCitation(tweetId, tweetId))
+            .replace(FOOTNOTE_PATTERN, (marker) => {
+                unknownCitations.push(marker);
+                return "";
+            })
+            .replace(GLUED_FOOTNOTE_PATTERN, (marker, punctuation: string) => {
+                unknownCitations.push(marker);
+                return punctuation;
+            })
+    );
+
+    const figures = extractFigures(text);
+    const unverifiedFigures = figures
+        .filter((figure) => !isTraceable(figure, sources))
+        .map((figure) => figure.raw);
+
+    const checked = verifiedCitations + unknownCitations.length + figures.length;
+    const unverified = unknownCitations.length + unverifiedFigures.length;
+
+    return {
+        text,
+        verifiedCitations,
+        unknownCitations,
+        verifiedFigures: figures.length - unverifiedFigures.length,
+        unverifiedFigures,
+        unverifiedRatio: checked ? unverified / checked : 0,
+    };
+}
+
+/**
+ * Drops the bullet points that state a figure the source data does not
+ * back. Used when the model keeps inventing numbers after re-prompting.
+ */
+export function removeUnverifiedFigures(
+    report: string,
+    sources: CitationSources
+): string {
+    return report
+        .split("\n")
+        .filter(
+            (line) =>
+                !BULLET_PATTERN.test(line) ||
+                extractFigures(line).every((figure) => isTraceable(figure, sources))
+        )
+        .join("\n");
+}
+
+/**
+ * Lists the unverifiable content of a report for the repair prompt.
+ */
+export function formatCitationIssues(check: CitationCheck): string {
+    return [
+        ...check.unknownCitations.map(
+            (citation) => `- Unknown tweet or footnote: ${citation}`
+        ),
+        ...check.unverifiedFigures.map(
+            (figure) => `- Figure not found in the data: ${figure}`
+        ),
+    ].join("\n");
+}
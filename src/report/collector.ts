@@ -0,0 +1,131 @@
+import { elizaLogger } from "@elizaos/core";
+import { SearchMode, type Tweet } from "agent-twitter-client";
+import type { ClientBase } from "../base";
+
+const DEFAULT_PAGE_SIZE = 20;
+const DEFAULT_MAX_PAGES = 25;
+
+export interface CollectTweetsOptions {
+    /** Start of the collection window (inclusive) */
+    since: Date;
+    /** End of the collection window (exclusive), defaults to now */
+    until?: Date;
+    /** Maximum number of tweets to keep for this query */
+    maxTweets: number;
+    includeReplies?: boolean;
+    includeQuotes?: boolean;
+    pageSize?: number;
+    /** Safety bound on the number of search pages requested */
+    maxPages?: number;
+}
+
+/**
+ * Tweet creation time in milliseconds. Scraped tweets carry a
+ * seconds-based `timestamp`, so normalize it here.
+ */
+export function getTweetTime(tweet: Tweet): number | undefined {
+    if (tweet.timestamp) {
+        return tweet.timestamp * 1000;
+    }
+    return tweet.timeParsed ? new Date(tweet.timeParsed).getTime() : undefined;
+}
+
+export function isReplyTweet(tweet: Tweet): boolean {
+    return Boolean(tweet.isReply || tweet.inReplyToStatusId);
+}
+
+export function isQuoteTweet(tweet: Tweet): boolean {
+    return Boolean(tweet.isQuoted || tweet.quotedStatusId);
+}
+
+/**
+ * Remove duplicate tweets, keeping the first occurrence of each ID.
+ */
+export function dedupeTweets(tweets: Tweet[]): Tweet[] {
+    const seen = new Set<string>();
+    return tweets.filter((tweet) => {
+        if (!tweet?.id || seen.has(tweet.id)) {
+            return false;
+        }
+        seen.add(tweet.id);
+        return true;
+    });
+}
+
+/**
+ * Pages through latest search results for `query` until the whole
+ * [since, until) window is covered, the cursor runs out, or `maxTweets`
+ * tweets were collected. Retweets are always skipped; replies and quotes
+ * are kept only when requested.
+ */
+export async function collectTweetsInWindow(
+    client: ClientBase,
+    query: string,
+    options: CollectTweetsOptions
+): Promise<Tweet[]> {
+    const since = options.since.getTime();
+    const until = (options.until ?? new Date()).getTime();
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+
+    const collected = new Map<string, Tweet>();
+    const seenCursors = new Set<string>();
+    let cursor: string | undefined;
+    let windowCovered = false;
+
+    for (let page = 0; page < maxPages; page++) {
+        const response = await client.fetchSearchTweets(
+            query,
+            pageSize,
+            SearchMode.Latest,
+            cursor
+        );
+        const tweets = response?.tweets ?? [];
+
+        if (tweets.length === 0) {
+            break;
+        }
+
+        for (const tweet of tweets) {
+            const createdAt = getTweetTime(tweet);
+
+            if (createdAt !== undefined && createdAt < since) {
+                // Latest results are newest first, anything older ends the window
+                windowCovered = true;
+                continue;
+            }
+
+            if (
+                !tweet.id ||
+                collected.has(tweet.id) ||
+                createdAt === undefined ||
+                createdAt >= until ||
+                tweet.isRetweet ||
+                (!options.includeReplies && isReplyTweet(tweet)) ||
+                (!options.includeQuotes && isQuoteTweet(tweet))
+            ) {
+                continue;
+            }
+
+            collected.set(tweet.id, tweet);
+        }
+
+        if (windowCovered || collected.size >= options.maxTweets) {
+            break;
+        }
+
+        cursor = response.next;
+        if (!cursor || seenCursors.has(cursor)) {
+            break;
+        }
+        seenCursors.add(cursor);
+    }
+
+    elizaLogger.debug(
+        `Collected ${collected.size} tweets for "${query}" (window ${windowCovered ? "covered" : "partially covered"})`
+    );
+
+    return [...collected.values()]
+        .sort((a, b) => (getTweetTime(b) ?? 0) - (getTweetTime(a) ?? 0))
+        .slice(0, options.maxTweets);
+}
@@ -0,0 +1,176 @@
+import { shiftDateKey } from "./scheduler";
+import {
+    normalizeThemeName,
+    type DailyAnalysisSnapshot,
+    type SentimentCounts,
+} from "./snapshots";
+
+const MAX_DIGEST_THEMES = 10;
+const MAX_DIGEST_TRENDS = 10;
+const MAX_DIGEST_HASHTAGS = 5;
+
+export type DigestPeriod = "weekly" | "monthly";
+
+/**
+ * Number of daily reports (ending on the digest date) each digest covers.
+ */
+export const DIGEST_PERIOD_DAYS: Record<DigestPeriod, number> = {
+    weekly: 7,
+    monthly: 30,
+};
+
+export interface DigestTheme {
+    name: string;
+    /** Tweets counted for the theme across all days */
+    count: number;
+    /** Number of daily reports the theme appeared in */
+    days: number;
+}
+
+export interface DigestDay {
+    date: string;
+    totalTweets: number;
+    sentiment: SentimentCounts;
+}
+
+/**
+ * Daily analysis snapshots of one digest period, merged together.
+ */
+export interface PeriodDigest {
+    period: DigestPeriod;
+    from: string;
+    to: string;
+    days: DigestDay[];
+    totalTweets: number;
+    themes: DigestTheme[];
+    trends: string[];
+    sentiment: SentimentCounts;
+    topHashtags: string[];
+    notableTweetIds: string[];
+    tweetIds: string[];
+}
+
+/**
+ * First and last report date covered by a digest published on `dateKey`.
+ */
+export function getDigestRange(
+    period: DigestPeriod,
+    dateKey: string
+): { from: string; to: string } {
+    return {
+        from: shiftDateKey(dateKey, -(DIGEST_PERIOD_DAYS[period] - 1)),
+        to: dateKey,
+    };
+}
+
+function countTop(values: string[], limit: number): string[] {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return [...counts]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([value]) => value);
+}
+
+const uniqueNewestFirst = (values: string[][]) =>
+    [...new Set([...values].reverse().flat())];
+
+/**
+ * Merges the daily snapshots of a period. Themes are matched by
+ * normalized name and ranked by how many days they appeared in.
+ */
+export function aggregateSnapshots(
+    period: DigestPeriod,
+    from: string,
+    to: string,
+    snapshots: DailyAnalysisSnapshot[]
+): PeriodDigest {
+    const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+
+    const themes = new Map<string, DigestTheme>();
+    for (const snapshot of sorted) {
+        const seenToday = new Set<string>();
+        for (const theme of snapshot.themes) {
+            const key = normalizeThemeName(theme.name);
+            const merged = themes.get(key) ?? { name: theme.name, count: 0, days: 0 };
+            // Keep the most recent wording of the theme
+            merged.name = theme.name;
+            merged.count += theme.count;
+            if (!seenToday.has(key)) {
+                merged.days += 1;
+                seenToday.add(key);
+            }
+            themes.set(key, merged);
+        }
+    }
+
+    const sentiment = sorted.reduce(
+        (total, snapshot) => ({
+            positive: total.positive + snapshot.sentiment.positive,
+            neutral: total.neutral + snapshot.sentiment.neutral,
+            negative: total.negative + snapshot.sentiment.negative,
+        }),
+        { positive: 0, neutral: 0, negative: 0 }
+    );
+
+    return {
+        period,
+        from,
+        to,
+        days: sorted.map((snapshot) => ({
+            date: snapshot.date,
+            totalTweets: snapshot.totalTweets,
+            sentiment: snapshot.sentiment,
+        })),
+        totalTweets: sorted.reduce((total, snapshot) => total + snapshot.totalTweets, 0),
+        themes: [...themes.values()]
+            .sort((a, b) => b.days - a.days || b.count - a.count)
+            .slice(0, MAX_DIGEST_THEMES),
+        trends: uniqueNewestFirst(sorted.map((snapshot) => snapshot.trends)).slice(
+            0,
+            MAX_DIGEST_TRENDS
+        ),
+        sentiment,
+        topHashtags: countTop(
+            sorted.flatMap((snapshot) => snapshot.topHashtags),
+            MAX_DIGEST_HASHTAGS
+        ),
+        notableTweetIds: uniqueNewestFirst(
+            sorted.map((snapshot) => snapshot.notableTweetIds)
+        ),
+        // Snapshots saved before tweet IDs were recorded have none
+        tweetIds: uniqueNewestFirst(sorted.map((snapshot) => snapshot.tweetIds ?? [])),
+    };
+}
+
+/**
+ * Renders a digest as the data block of the weekly/monthly prompt.
+ */
+export function formatDigest(digest: PeriodDigest): string {
+    const list = (items: string[]) => (items.length ? items.join(", ") : "none");
+    const sentiment = (counts: SentimentCounts) =>
+        `positive ${counts.positive}, neutral ${counts.neutral}, negative ${counts.negative}`;
+
+    return [
+        `Daily reports covered: ${digest.days.length} (${digest.from} to ${digest.to})`,
+        `Tweets analyzed: ${digest.totalTweets}`,
+        "Themes (days seen, tweets):",
+        ...(digest.themes.length
+            ? digest.themes.map(
+                  (theme) => `- ${theme.name}: ${theme.days} days, ${theme.count} tweets`
+              )
+            : ["- none"]),
+        "Trends:",
+        ...(digest.trends.length
+            ? digest.trends.map((trend) => `- ${trend}`)
+            : ["- none"]),
+        `Top hashtags: ${list(digest.topHashtags.map((tag) => `#${tag}`))}`,
+        `Sentiment: ${sentiment(digest.sentiment)}`,
+        "Sentiment by day:",
+        ...digest.days.map(
+            (day) => `- ${day.date} (${day.totalTweets} tweets): ${sentiment(day.sentiment)}`
+        ),
+    ].join("\n");
+}
@@ -0,0 +1,121 @@
+import { elizaLogger } from "@elizaos/core";
+import type { Tweet } from "agent-twitter-client";
+import { Client, GatewayIntentBits, TextChannel, type APIEmbed } from "discord.js";
+import { isSectionHeading, splitReportSections } from "./thread";
+
+// Discord embed limits
+const MAX_TITLE_LENGTH = 256;
+const MAX_DESCRIPTION_LENGTH = 4096;
+const MAX_FIELD_NAME_LENGTH = 256;
+const MAX_FIELD_VALUE_LENGTH = 1024;
+const MAX_FIELDS = 25;
+const MAX_SOURCE_TWEETS = 10;
+
+const truncate = (text: string, maxLength: number) =>
+    text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+// "📊 **Daily Insights**" => "📊 Daily Insights"
+const cleanHeading = (line: string) =>
+    line.replace(/^#+\s*/, "").replace(/\*\*|__/g, "").trim();
+
+/**
+ * Builds a Discord embed for a report: one field per report section and a
+ * final field linking to the source tweets.
+ */
+export function buildReportEmbed(
+    title: string,
+    content: string,
+    sections: string[],
+    sourceTweets: Tweet[] = []
+): APIEmbed {
+    const descriptionLines: string[] = [];
+    const fields: APIEmbed["fields"] = [];
+
+    for (const block of splitReportSections(content, sections)) {
+        const lines = block.split("\n");
+        const headingIndex = lines.findIndex((line) =>
+            isSectionHeading(line, sections)
+        );
+
+        if (headingIndex === -1) {
+            descriptionLines.push(...lines);
+            continue;
+        }
+
+        descriptionLines.push(...lines.slice(0, headingIndex));
+        fields.push({
+            name: truncate(cleanHeading(lines[headingIndex]), MAX_FIELD_NAME_LENGTH),
+            value: truncate(
+                lines.slice(headingIndex + 1).join("\n").trim() || "-",
+                MAX_FIELD_VALUE_LENGTH
+            ),
+        });
+    }
+
+    const links: string[] = [];
+    for (const tweet of sourceTweets.slice(0, MAX_SOURCE_TWEETS)) {
+        const link = `[@${tweet.username}](${tweet.permanentUrl})`;
+        if ([...links, link].join("\n").length > MAX_FIELD_VALUE_LENGTH) {
+            break;
+        }
+        links.push(link);
+    }
+    if (links.length) {
+        fields.push({ name: "Source Tweets", value: links.join("\n") });
+    }
+
+    return {
+        title: truncate(title, MAX_TITLE_LENGTH),
+        description: truncate(
+            descriptionLines.join("\n").trim(),
+            MAX_DESCRIPTION_LENGTH
+        ),
+        fields: fields.slice(0, MAX_FIELDS),
+        timestamp: new Date().toISOString(),
+        color: 0x1DA1F2, // Twitter blue color
+    };
+}
+
+/**
+ * Logs in with the bot token, posts the embed to every channel and logs
+ * out again. Throws when no channel received the report.
+ */
+export async function sendReportToDiscord(
+    token: string,
+    channelIds: string[],
+    embed: APIEmbed
+): Promise<void> {
+    const discordClient = new Client({ intents: [GatewayIntentBits.Guilds] });
+
+    try {
+        await discordClient.login(token);
+
+        let delivered = 0;
+        for (const channelId of channelIds) {
+            try {
+                const channel = await discordClient.channels.fetch(channelId);
+                if (!channel || !(channel instanceof TextChannel)) {
+                    throw new Error(`Invalid Discord channel: ${channelId}`);
+                }
+
+                await channel.send({ embeds: [embed] });
+                delivered++;
+            } catch (error) {
+                elizaLogger.error(
+                    `Error sending report to Discord channel ${channelId}:`,
+                    error
+                );
+            }
+        }
+
+        if (!delivered) {
+            throw new Error("Report was not delivered to any Discord channel");
+        }
+
+        elizaLogger.log(
+            `Report delivered to ${delivered}/${channelIds.length} Discord channels`
+        );
+    } finally {
+        await discordClient.destroy();
+    }
+}
@@ -0,0 +1,189 @@
+import type { Tweet } from "agent-twitter-client";
+
+export const ENGAGEMENT_METRICS = [
+    "likes",
+    "retweets",
+    "replies",
+    "quotes",
+    "bookmarks",
+    "views",
+] as const;
+
+export type EngagementMetric = (typeof ENGAGEMENT_METRICS)[number];
+
+export type EngagementCounts = Record<EngagementMetric, number>;
+
+/**
+ * Score contributed by one unit of each metric.
+ */
+export type EngagementWeights = Record<EngagementMetric, number>;
+
+export const DEFAULT_ENGAGEMENT_WEIGHTS: EngagementWeights = {
+    likes: 1,
+    retweets: 2,
+    replies: 1.5,
+    quotes: 2,
+    bookmarks: 1,
+    views: 0,
+};
+
+/**
+ * Typical engagement score per tweet, keyed by lowercased username.
+ */
+export type AuthorBaselines = Record<string, number>;
+
+// Weight of the newest day when updating stored author baselines
+const BASELINE_SMOOTHING = 0.3;
+
+export interface TweetEngagement {
+    tweet: Tweet;
+    counts: EngagementCounts;
+    /** Weighted sum of the engagement counts */
+    score: number;
+    /** Interactions per view, null when the view count is unknown */
+    engagementRate: number | null;
+    /** Score relative to the author's baseline, 1 = a typical tweet of theirs */
+    normalizedScore: number;
+}
+
+export interface RankEngagementOptions {
+    weights?: EngagementWeights;
+    /** Stored baselines; authors without one use their mean score in `tweets` */
+    baselines?: AuthorBaselines;
+    /** Rank by normalized score instead of the raw score */
+    normalizeByAuthor?: boolean;
+    /**
+     * Tweets each ranked tweet stands for, keyed by its ID, e.g. the tweets
+     * of a story. Its normalized score is their mean normalized score.
+     */
+    members?: Map<string, Tweet[]>;
+    limit?: number;
+}
+
+const authorKey = (tweet: Tweet) => (tweet.username ?? "").toLowerCase();
+
+export function getEngagementCounts(tweet: Tweet): EngagementCounts {
+    return {
+        likes: tweet.likes ?? 0,
+        retweets: tweet.retweets ?? 0,
+        replies: tweet.replies ?? 0,
+        // parseTweet adds the quote count, the Tweet type does not declare it
+        quotes: (tweet as Tweet & { quotes?: number }).quotes ?? 0,
+        bookmarks: tweet.bookmarkCount ?? 0,
+        views: tweet.views ?? 0,
+    };
+}
+
+export function scoreTweet(
+    tweet: Tweet,
+    weights: EngagementWeights = DEFAULT_ENGAGEMENT_WEIGHTS
+): number {
+    const counts = getEngagementCounts(tweet);
+    return ENGAGEMENT_METRICS.reduce(
+        (score, metric) => score + counts[metric] * weights[metric],
+        0
+    );
+}
+
+/**
+ * Unweighted interactions (everything but views) divided by views.
+ */
+export function getEngagementRate(tweet: Tweet): number | null {
+    const { views, ...interactions } = getEngagementCounts(tweet);
+    if (!views) {
+        return null;
+    }
+    return Object.values(interactions).reduce((sum, count) => sum + count, 0) / views;
+}
+
+/**
+ * Mean score of each author's tweets.
+ */
+export function computeAuthorBaselines(
+    tweets: Tweet[],
+    weights: EngagementWeights = DEFAULT_ENGAGEMENT_WEIGHTS
+): AuthorBaselines {
+    const totals = new Map<string, { score: number; count: number }>();
+    for (const tweet of tweets) {
+        const total = totals.get(authorKey(tweet)) ?? { score: 0, count: 0 };
+        total.score += scoreTweet(tweet, weights);
+        total.count++;
+        totals.set(authorKey(tweet), total);
+    }
+
+    return Object.fromEntries(
+        [...totals].map(([author, { score, count }]) => [author, score / count])
+    );
+}
+
+/**
+ * Blends the latest baselines into the stored ones (exponential moving
+ * average), so a single viral day does not reset an author's baseline.
+ */
+export function updateAuthorBaselines(
+    previous: AuthorBaselines,
+    latest: AuthorBaselines,
+    smoothing = BASELINE_SMOOTHING
+): AuthorBaselines {
+    const updated = { ...previous };
+    for (const [author, baseline] of Object.entries(latest)) {
+        updated[author] =
+            author in previous
+                ? previous[author] * (1 - smoothing) + baseline * smoothing
+                : baseline;
+    }
+    return updated;
+}
+
+/**
+ * Scores every tweet and returns them best first, optionally limited to
+ * the top `limit`. Ties on the normalized score fall back to the raw score.
+ */
+export function rankTweetsByEngagement(
+    tweets: Tweet[],
+    options: RankEngagementOptions = {}
+): TweetEngagement[] {
+    const weights = options.weights ?? DEFAULT_ENGAGEMENT_WEIGHTS;
+    const getMembers = (tweet: Tweet) => options.members?.get(tweet.id) ?? [tweet];
+    const baselines = {
+        ...computeAuthorBaselines(tweets.flatMap(getMembers), weights),
+        ...options.baselines,
+    };
+    // Baselines below 1 would inflate tweets of quiet accounts
+    const normalize = (tweet: Tweet) =>
+        scoreTweet(tweet, weights) / Math.max(baselines[authorKey(tweet)] ?? 0, 1);
+
+    const ranked = tweets
+        .map((tweet) => {
+            const members = getMembers(tweet);
+            return {
+                tweet,
+                counts: getEngagementCounts(tweet),
+                score: scoreTweet(tweet, weights),
+                engagementRate: getEngagementRate(tweet),
+                normalizedScore:
+                    members.reduce((sum, member) => sum + normalize(member), 0) /
+                    members.length,
+            };
+        })
+        .sort((a, b) =>
+            options.normalizeByAuthor
+                ? b.normalizedScore - a.normalizedScore || b.score - a.score
+                : b.score - a.score
+        );
+
+    return options.limit === undefined ? ranked : ranked.slice(0, options.limit);
+}
+
+/**
+ * "12 likes, 3 RTs, 1 replies, 2.4% engagement"
+ */
+export function formatEngagement(tweet: Tweet): string {
+    const counts = getEngagementCounts(tweet);
+    const engagementRate = getEngagementRate(tweet);
+    const rate =
+        engagementRate === null
+            ? ""
+            : `, ${(engagementRate * 100).toFixed(1)}% engagement`;
+    return `${counts.likes} likes, ${counts.retweets} RTs, ${counts.replies} replies${rate}`;
+}
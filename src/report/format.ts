@@ -0,0 +1,277 @@
+// Twitter's weighted length rules (twitter-text v3): code points in these
+// ranges count once, everything else (CJK, most symbols) counts twice
+const SINGLE_WEIGHT_RANGES: [number, number][] = [
+    [0, 4351],
+    [8192, 8205],
+    [8208, 8223],
+    [8242, 8247],
+];
+// Every link is shortened to a t.co URL of this length
+const URL_LENGTH = 23;
+const EMOJI_WEIGHT = 2;
+const ELLIPSIS = "…";
+
+const EMOJI_SEQUENCE =
+    "\\p{RI}\\p{RI}|[#*0-9]\\uFE0F?\\u20E3|\\p{Extended_Pictographic}(?:\\uFE0F|[\\u{1F3FB}-\\u{1F3FF}])*(?:\\u200D\\p{Extended_Pictographic}(?:\\uFE0F|[\\u{1F3FB}-\\u{1F3FF}])*)*";
+const TOKEN_PATTERN = new RegExp(`(https?:\\/\\/\\S+)|(${EMOJI_SEQUENCE})|([\\s\\S])`, "gu");
+const EMOJI_PATTERN = new RegExp(EMOJI_SEQUENCE, "gu");
+// An emoji with the space after it, so removing it leaves no gap
+const SPACED_EMOJI_PATTERN = new RegExp(`(?:${EMOJI_SEQUENCE})[ \\t]?`, "gu");
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&#])#[\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*/gu;
+const BULLET_PATTERN = /^\s*(?:[•\-–*▪◦·]|\d+[.)])\s/;
+
+/**
+ * Length of `text` as Twitter counts it: URLs count as 23, emoji as 2 and
+ * characters outside the Latin ranges as 2.
+ */
+export function getWeightedLength(text: string): number {
+    let length = 0;
+    for (const [, url, emoji, char] of text.normalize("NFC").matchAll(TOKEN_PATTERN)) {
+        if (url) {
+            length += URL_LENGTH;
+        } else if (emoji) {
+            length += EMOJI_WEIGHT;
+        } else {
+            const codePoint = char.codePointAt(0);
+            length += SINGLE_WEIGHT_RANGES.some(
+                ([from, to]) => codePoint >= from && codePoint <= to
+            )
+                ? 1
+                : 2;
+        }
+    }
+    return length;
+}
+
+/**
+ * Cuts `text` to at most `maxLength` weighted characters at a word
+ * boundary, ending with "…". URLs are kept whole or dropped.
+ */
+export function truncateToWeightedLength(text: string, maxLength: number): string {
+    if (getWeightedLength(text) <= maxLength) {
+        return text;
+    }
+
+    const budget = maxLength - getWeightedLength(ELLIPSIS);
+    let result = "";
+    for (const word of text.split(/(?<=\s)/)) {
+        if (getWeightedLength(result + word) > budget) {
+            break;
+        }
+        result += word;
+    }
+
+    // A single word longer than the budget is cut by code point
+    if (!result.trim()) {
+        for (const char of text) {
+            if (getWeightedLength(result + char) > budget) {
+                break;
+            }
+            result += char;
+        }
+    }
+
+    return result.trimEnd().replace(/[\s,;:.\-–—]+$/, "") + ELLIPSIS;
+}
+
+/**
+ * Splits `text` into pieces of at most `maxLength` weighted characters,
+ * breaking between words.
+ */
+export function splitByWeightedLength(text: string, maxLength: number): string[] {
+    const pieces: string[] = [];
+    let current = "";
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (getWeightedLength(candidate) <= maxLength) {
+            current = candidate;
+            continue;
+        }
+        if (current) {
+            pieces.push(current);
+        }
+
+        current = word;
+        // Cut words that do not fit on their own
+        while (getWeightedLength(current) > maxLength) {
+            let head = "";
+            for (const char of current) {
+                if (getWeightedLength(head + char) > maxLength) {
+                    break;
+                }
+                head += char;
+            }
+            pieces.push(head);
+            current = current.slice(head.length);
+        }
+    }
+
+    if (current) {
+        pieces.push(current);
+    }
+    return pieces;
+}
+
+export interface ReportFormatConstraints {
+    /** Weighted length of the whole report, unchecked when unset */
+    maxLength?: number;
+    maxHashtags: number;
+    maxEmojis: number;
+    /** Weighted length of each bullet point */
+    maxBulletLength: number;
+}
+
+/**
+ * The format requirements of the default report templates.
+ */
+export const DEFAULT_REPORT_FORMAT_CONSTRAINTS: ReportFormatConstraints = {
+    maxHashtags: 2,
+    maxEmojis: 3,
+    maxBulletLength: 100,
+};
+
+export type ReportFormatRule = "length" | "hashtags" | "emojis" | "bullet";
+
+export interface ReportFormatViolation {
+    rule: ReportFormatRule;
+    message: string;
+}
+
+export const isBulletLine = (line: string) => BULLET_PATTERN.test(line);
+
+/**
+ * Lists every way `text` breaks the format constraints.
+ */
+export function checkReportFormat(
+    text: string,
+    constraints: ReportFormatConstraints
+): ReportFormatViolation[] {
+    const violations: ReportFormatViolation[] = [];
+
+    const length = getWeightedLength(text);
+    if (constraints.maxLength && length > constraints.maxLength) {
+        violations.push({
+            rule: "length",
+            message: `Report is ${length} characters long, the limit is ${constraints.maxLength}`,
+        });
+    }
+
+    const hashtags = text.match(HASHTAG_PATTERN) ?? [];
+    if (hashtags.length > constraints.maxHashtags) {
+        violations.push({
+            rule: "hashtags",
+            message: `Report has ${hashtags.length} hashtags, the limit is ${constraints.maxHashtags}`,
+        });
+    }
+
+    const emojis = text.match(EMOJI_PATTERN) ?? [];
+    if (emojis.length > constraints.maxEmojis) {
+        violations.push({
+            rule: "emojis",
+            message: `Report has ${emojis.length} emojis, the limit is ${constraints.maxEmojis}`,
+        });
+    }
+
+    for (const line of text.split("\n").filter(isBulletLine)) {
+        const bulletLength = getWeightedLength(line.trim());
+        if (bulletLength > constraints.maxBulletLength) {
+            violations.push({
+                rule: "bullet",
+                message: `Bullet point is ${bulletLength} characters long, the limit is ${constraints.maxBulletLength}: ${line.trim()}`,
+            });
+        }
+    }
+
+    return violations;
+}
+
+/**
+ * Appends data sections to a generated report. The sections are built
+ * from collected data, so they are appended as they are, after the
+ * report itself has been held to the format constraints.
+ */
+export function appendReportSections(report: string, sections: string[]): string {
+    return [report.trim(), ...sections].join("\n\n");
+}
+
+/**
+ * Hashtags past the limit lose their "#", or are removed entirely on
+ * lines made of hashtags only.
+ */
+function limitHashtags(text: string, maxHashtags: number): string {
+    let count = 0;
+    const lines: string[] = [];
+
+    for (const line of text.split("\n")) {
+        const hashtagLine = line.trim() && !line.replace(HASHTAG_PATTERN, "").trim();
+        const limited = line
+            .replace(HASHTAG_PATTERN, (hashtag) =>
+                ++count <= maxHashtags ? hashtag : hashtagLine ? "" : hashtag.slice(1)
+            )
+            .replace(/[ \t]{2,}/g, " ")
+            .trimEnd();
+
+        if (!hashtagLine || limited.trim()) {
+            lines.push(limited);
+        }
+    }
+
+    return lines.join("\n");
+}
+
+function limitEmojis(text: string, maxEmojis: number): string {
+    let count = 0;
+    return text
+        .replace(SPACED_EMOJI_PATTERN, (emoji) => (++count <= maxEmojis ? emoji : ""))
+        .split("\n")
+        .map((line) => line.replace(/[ \t]{2,}/g, " ").trimEnd())
+        .join("\n");
+}
+
+/**
+ * Drops bullet points from the end until the report fits, then cuts it.
+ */
+function limitLength(text: string, maxLength: number): string {
+    const lines = text.split("\n");
+    while (getWeightedLength(lines.join("\n")) > maxLength) {
+        const bullets = lines.flatMap((line, index) => (isBulletLine(line) ? [index] : []));
+        if (bullets.length < 2) {
+            break;
+        }
+        lines.splice(bullets[bullets.length - 1], 1);
+    }
+    return truncateToWeightedLength(lines.join("\n"), maxLength);
+}
+
+/**
+ * Deterministically trims `text` until it meets the constraints: extra
+ * hashtags and emojis are removed, long bullet points are cut and, when
+ * the whole report is too long, trailing bullet points are dropped.
+ * Returns the trimmed text and the violations that were fixed.
+ */
+export function enforceReportFormat(
+    text: string,
+    constraints: ReportFormatConstraints
+): { text: string; fixed: ReportFormatViolation[] } {
+    const fixed = checkReportFormat(text, constraints);
+    if (!fixed.length) {
+        return { text, fixed };
+    }
+
+    let result = limitHashtags(text, constraints.maxHashtags);
+    result = limitEmojis(result, constraints.maxEmojis);
+    result = result
+        .split("\n")
+        .map((line) =>
+            isBulletLine(line)
+                ? truncateToWeightedLength(line.trim(), constraints.maxBulletLength)
+                : line
+        )
+        .join("\n");
+    if (constraints.maxLength) {
+        result = limitLength(result, constraints.maxLength);
+    }
+
+    return { text: result, fixed };
+}
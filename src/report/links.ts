@@ -0,0 +1,155 @@
+import type { Tweet } from "agent-twitter-client";
+
+const MAX_SHARED_LINKS = 5;
+const MAX_SHARED_DOMAINS = 5;
+
+export const SHARED_LINKS_HEADING = "🔗 Most Shared Links";
+
+// Analytics and share-tracking query parameters
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src|s|si)$/i;
+
+// Links back to Twitter are quotes and self-references, not shared links
+const IGNORED_DOMAINS = new Set(["twitter.com", "x.com", "t.co"]);
+
+export interface SharedLink {
+    url: string;
+    domain: string;
+    /** Distinct users who shared the link, in order of first share */
+    sharers: string[];
+    tweetIds: string[];
+}
+
+export interface SharedDomain {
+    domain: string;
+    /** Distinct links of the domain */
+    linkCount: number;
+    sharers: string[];
+}
+
+export interface SharedLinks {
+    links: SharedLink[];
+    domains: SharedDomain[];
+}
+
+/**
+ * Canonical form of a URL, used to dedupe links: https, lowercase host
+ * without "www.", no fragment, no tracking parameters, sorted query and
+ * no trailing slash. Returns null for invalid or non-web URLs.
+ */
+export function normalizeUrl(rawUrl: string): string | null {
+    let url: URL;
+    try {
+        url = new URL(rawUrl.trim());
+    } catch {
+        return null;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+        return null;
+    }
+
+    url.protocol = "https:";
+    url.hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+    url.hash = "";
+    for (const key of [...url.searchParams.keys()]) {
+        if (TRACKING_PARAMS.test(key)) {
+            url.searchParams.delete(key);
+        }
+    }
+    url.searchParams.sort();
+
+    return url.toString().replace(/\/+(?=\?|$)/, "");
+}
+
+/**
+ * Expanded URLs of a tweet. parseTweet may keep the raw URL entities, so
+ * both plain strings and `{ expanded_url }` objects are accepted.
+ */
+function getTweetUrls(tweet: Tweet): string[] {
+    return ((tweet.urls ?? []) as unknown[])
+        .map((entry) =>
+            typeof entry === "string"
+                ? entry
+                : (entry as { expanded_url?: string; url?: string })?.expanded_url ??
+                  (entry as { url?: string })?.url
+        )
+        .filter(Boolean);
+}
+
+/**
+ * Normalizes and dedupes the links of all tweets, ranked by the number of
+ * distinct users who shared them, then by the number of tweets.
+ */
+export function aggregateSharedLinks(
+    tweets: Tweet[],
+    maxLinks = MAX_SHARED_LINKS,
+    maxDomains = MAX_SHARED_DOMAINS
+): SharedLinks {
+    const links = new Map<string, SharedLink>();
+
+    for (const tweet of tweets) {
+        const urls = new Set(getTweetUrls(tweet).map(normalizeUrl).filter(Boolean));
+        for (const url of urls) {
+            const domain = new URL(url).hostname;
+            if (IGNORED_DOMAINS.has(domain)) {
+                continue;
+            }
+
+            const link = links.get(url) ?? { url, domain, sharers: [], tweetIds: [] };
+            if (!link.sharers.includes(tweet.username)) {
+                link.sharers.push(tweet.username);
+            }
+            link.tweetIds.push(tweet.id);
+            links.set(url, link);
+        }
+    }
+
+    const domains = new Map<string, SharedDomain>();
+    for (const link of links.values()) {
+        const domain = domains.get(link.domain) ?? {
+            domain: link.domain,
+            linkCount: 0,
+            sharers: [],
+        };
+        domain.linkCount++;
+        domain.sharers = [...new Set([...domain.sharers, ...link.sharers])];
+        domains.set(link.domain, domain);
+    }
+
+    return {
+        links: [...links.values()]
+            .sort(
+                (a, b) =>
+                    b.sharers.length - a.sharers.length ||
+                    b.tweetIds.length - a.tweetIds.length
+            )
+            .slice(0, maxLinks),
+        domains: [...domains.values()]
+            .sort(
+                (a, b) =>
+                    b.sharers.length - a.sharers.length || b.linkCount - a.linkCount
+            )
+            .slice(0, maxDomains),
+    };
+}
+
+/**
+ * Renders the "Most Shared Links" report section, one line per link and
+ * a summary line of the top domains.
+ */
+export function formatSharedLinksSection({ links, domains }: SharedLinks): string {
+    const lines = links.map(
+        (link) => `• ${link.url} - ${link.sharers.map((user) => `@${user}`).join(", ")}`
+    );
+    const topDomains = domains
+        .map(
+            (domain) =>
+                `${domain.domain} (${domain.sharers.length} user${domain.sharers.length === 1 ? "" : "s"})`
+        )
+        .join(", ");
+
+    return [
+        SHARED_LINKS_HEADING,
+        ...(lines.length ? lines : ["• No links shared"]),
+        ...(topDomains ? [`Top domains: ${topDomains}`] : []),
+    ].join("\n");
+}
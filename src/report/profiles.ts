@@ -0,0 +1,225 @@
+import { stringToUuid, type UUID } from "@elizaos/core";
+import type {
+    DailyReportTarget,
+    ReportCardConfig,
+    ReportLanguageDelivery,
+    ReportProfileConfig,
+    TwitterConfig,
+} from "../environment";
+import type { Weekday } from "./scheduler";
+import {
+    DEFAULT_REPORT_CARD_STYLE,
+    type ReportCardStyle,
+} from "./card";
+
+/**
+ * Name of the profile built from the DAILY_REPORT_* settings when the
+ * character file defines no report profiles. It keeps the cache keys of
+ * the single-report setup.
+ */
+export const DEFAULT_REPORT_PROFILE = "default";
+
+export interface ReportTemplates {
+    analysis?: string;
+    report?: string;
+    weekly?: string;
+    monthly?: string;
+}
+
+/**
+ * One language the reports of a profile are written in. Its targets are
+ * only used when the languages are delivered separately.
+ */
+export interface ReportLanguage {
+    name: string;
+    targets: DailyReportTarget[];
+    discordChannelIds: string[];
+}
+
+/**
+ * A named report with its own sources, templates, schedule, room and
+ * delivery targets. Unset fields of a character file profile fall back
+ * to the DAILY_REPORT_* settings.
+ */
+export interface ReportProfile {
+    name: string;
+    targetUsers: string[];
+    searchQueries: string[];
+    templates: ReportTemplates;
+    /** Daily report time, HH:MM in `timeZone` */
+    time: string;
+    timeZone: string;
+    lookbackHours: number;
+    /** null when the profile has no weekly recap */
+    weekly: { day: Weekday; time: string } | null;
+    /** null when the profile has no month-end recap */
+    monthly: { time: string } | null;
+    roomId: UUID;
+    targets: DailyReportTarget[];
+    discordChannelIds: string[];
+    /** The report is generated once per language, the first one leading */
+    languages: ReportLanguage[];
+    languageDelivery: ReportLanguageDelivery;
+    /** null when daily reports have no chart card */
+    card: ReportCardStyle | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toRoomId(roomId: string): UUID {
+    return UUID_PATTERN.test(roomId) ? (roomId as UUID) : stringToUuid(roomId);
+}
+
+/**
+ * Chart card style of a profile's card block over the defaults, branded
+ * with the agent's handle unless the block names a brand.
+ */
+function resolveCardStyle(
+    card: ReportCardConfig = {},
+    config: TwitterConfig
+): ReportCardStyle {
+    const { enabled: _enabled, colors, ...style } = card;
+    return {
+        ...DEFAULT_REPORT_CARD_STYLE,
+        brand: `@${config.TWITTER_USERNAME}`,
+        ...style,
+        colors: { ...DEFAULT_REPORT_CARD_STYLE.colors, ...colors },
+    };
+}
+
+/**
+ * Profile equivalent of the DAILY_REPORT_*, WEEKLY_REPORT_* and
+ * MONTHLY_REPORT_* settings.
+ */
+function buildDefaultProfile(config: TwitterConfig): ReportProfile {
+    return {
+        name: DEFAULT_REPORT_PROFILE,
+        targetUsers: config.TWITTER_TARGET_USERS,
+        searchQueries: config.DAILY_REPORT_SEARCH_QUERIES,
+        templates: {
+            report: config.DAILY_REPORT_TEMPLATE,
+            weekly: config.WEEKLY_REPORT_TEMPLATE,
+            monthly: config.MONTHLY_REPORT_TEMPLATE,
+        },
+        time: config.DAILY_REPORT_TIME,
+        timeZone: config.DAILY_REPORT_TIMEZONE,
+        lookbackHours: config.DAILY_REPORT_LOOKBACK_HOURS,
+        weekly: config.WEEKLY_REPORT_ENABLE
+            ? {
+                  day: config.WEEKLY_REPORT_DAY,
+                  time: config.WEEKLY_REPORT_TIME || config.DAILY_REPORT_TIME,
+              }
+            : null,
+        monthly: config.MONTHLY_REPORT_ENABLE
+            ? { time: config.MONTHLY_REPORT_TIME || config.DAILY_REPORT_TIME }
+            : null,
+        roomId: stringToUuid("twitter_dailyreport_room-" + config.TWITTER_USERNAME),
+        targets: config.DAILY_REPORT_TARGETS,
+        discordChannelIds: config.DAILY_REPORT_DISCORD_CHANNEL_IDS,
+        languages: config.DAILY_REPORT_LANGUAGES.map((name) => ({
+            name,
+            targets: config.DAILY_REPORT_TARGETS,
+            discordChannelIds: config.DAILY_REPORT_DISCORD_CHANNEL_IDS,
+        })),
+        languageDelivery: config.DAILY_REPORT_LANGUAGE_DELIVERY,
+        card: config.DAILY_REPORT_CARD_ENABLE ? resolveCardStyle({}, config) : null,
+    };
+}
+
+/**
+ * Fills the unset fields of a character file profile from the defaults.
+ * A weekly or monthly block in the profile's schedule, like a card block,
+ * enables that recap unless it says `enabled: false`; without one, the
+ * global setting applies.
+ */
+function resolveProfile(
+    profile: ReportProfileConfig,
+    defaults: ReportProfile,
+    config: TwitterConfig
+): ReportProfile {
+    const schedule = profile.schedule ?? {};
+    const time = schedule.time ?? defaults.time;
+
+    const weekly =
+        schedule.weekly === undefined
+            ? defaults.weekly && { day: defaults.weekly.day, time: config.WEEKLY_REPORT_TIME || time }
+            : schedule.weekly.enabled === false
+              ? null
+              : {
+                    day: schedule.weekly.day ?? config.WEEKLY_REPORT_DAY,
+                    time: schedule.weekly.time ?? (config.WEEKLY_REPORT_TIME || time),
+                };
+    const monthly =
+        schedule.monthly === undefined
+            ? defaults.monthly && { time: config.MONTHLY_REPORT_TIME || time }
+            : schedule.monthly.enabled === false
+              ? null
+              : { time: schedule.monthly.time ?? (config.MONTHLY_REPORT_TIME || time) };
+
+    const targets = profile.targets ?? defaults.targets;
+    const discordChannelIds = profile.discordChannelIds ?? defaults.discordChannelIds;
+    const languages = profile.languages?.map((language) =>
+        typeof language === "string"
+            ? { name: language, targets, discordChannelIds }
+            : {
+                  name: language.language,
+                  targets: language.targets ?? targets,
+                  discordChannelIds: language.discordChannelIds ?? discordChannelIds,
+              }
+    );
+
+    return {
+        name: profile.name,
+        targetUsers: profile.targetUsers ?? [],
+        searchQueries: profile.searchQueries ?? [],
+        templates: { ...defaults.templates, ...profile.templates },
+        time,
+        timeZone: schedule.timezone ?? defaults.timeZone,
+        lookbackHours: schedule.lookbackHours ?? defaults.lookbackHours,
+        weekly,
+        monthly,
+        roomId: toRoomId(
+            profile.roomId ??
+                `twitter_dailyreport_room-${config.TWITTER_USERNAME}-${profile.name}`
+        ),
+        targets,
+        discordChannelIds,
+        languages:
+            languages ??
+            defaults.languages.map(({ name }) => ({ name, targets, discordChannelIds })),
+        languageDelivery: profile.languageDelivery ?? defaults.languageDelivery,
+        card:
+            profile.card === undefined
+                ? defaults.card
+                : profile.card.enabled === false
+                  ? null
+                  : resolveCardStyle(profile.card, config),
+    };
+}
+
+/**
+ * The report profiles to run: the character file profiles, or a single
+ * default profile built from the settings when there are none.
+ */
+export function resolveReportProfiles(config: TwitterConfig): ReportProfile[] {
+    const defaults = buildDefaultProfile(config);
+    if (!config.DAILY_REPORT_PROFILES.length) {
+        return [defaults];
+    }
+    return config.DAILY_REPORT_PROFILES.map((profile) =>
+        resolveProfile(profile, defaults, config)
+    );
+}
+
+/**
+ * Prefix of the cache keys of a profile's run state and snapshots. The
+ * default profile keeps the keys used before profiles existed.
+ */
+export function getReportCacheKeyPrefix(
+    twitterUsername: string,
+    profileName: string
+): string {
+    return profileName === DEFAULT_REPORT_PROFILE
+        ? `twitter/${twitterUsername}`
+        : `twitter/${twitterUsername}/reports/${profileName}`;
+}
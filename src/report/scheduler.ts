@@ -0,0 +1,217 @@
+export const DEFAULT_DAILY_REPORT_TIME = "09:00";
+export const DEFAULT_DAILY_REPORT_TIMEZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest gap between two scheduled days (monthly schedules)
+const MAX_SCHEDULE_GAP_DAYS = 31;
+
+export const WEEKDAYS = [
+    "sunday",
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export type ReportTime = {
+    hour: number;
+    minute: number;
+};
+
+/**
+ * A single scheduled report run, identified by the calendar date
+ * (in the report timezone) it belongs to.
+ */
+export type ScheduledRun = {
+    dateKey: string;
+    scheduledAt: Date;
+};
+
+/**
+ * Decides whether a report runs on a given calendar date.
+ */
+export type ScheduleDayFilter = (dateKey: string) => boolean;
+
+export const everyDay: ScheduleDayFilter = () => true;
+
+export function onWeekday(weekday: Weekday): ScheduleDayFilter {
+    const dayIndex = WEEKDAYS.indexOf(weekday);
+    return (dateKey) => getWeekday(dateKey) === dayIndex;
+}
+
+/**
+ * Runs on the last day of each month.
+ */
+export const onLastDayOfMonth: ScheduleDayFilter = (dateKey) =>
+    parseDateKey(shiftDateKey(dateKey, 1)).day === 1;
+
+type ZonedParts = {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+};
+
+/**
+ * Parse a "HH:MM" (24h) report time.
+ */
+export function parseReportTime(time: string): ReportTime {
+    const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time?.trim() ?? "");
+    if (!match) {
+        throw new Error(`Invalid report time "${time}", expected HH:MM`);
+    }
+    return { hour: Number(match[1]), minute: Number(match[2]) };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    }).formatToParts(date);
+
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+        Number(parts.find((part) => part.type === type)?.value);
+
+    return {
+        year: get("year"),
+        month: get("month"),
+        day: get("day"),
+        hour: get("hour"),
+        minute: get("minute"),
+        second: get("second"),
+    };
+}
+
+/**
+ * Offset (in ms) of the timezone from UTC at the given instant.
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+    const p = getZonedParts(date, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function formatDateKey(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseDateKey(dateKey: string): { year: number; month: number; day: number } {
+    const [year, month, day] = dateKey.split("-").map(Number);
+    return { year, month, day };
+}
+
+/**
+ * Calendar date ("YYYY-MM-DD") of an instant in the given timezone.
+ */
+export function toDateKey(date: Date, timeZone: string): string {
+    const p = getZonedParts(date, timeZone);
+    return formatDateKey(p.year, p.month, p.day);
+}
+
+/**
+ * Day of the week of a calendar date (0 = Sunday ... 6 = Saturday).
+ */
+export function getWeekday(dateKey: string): number {
+    const { year, month, day } = parseDateKey(dateKey);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function shiftDateKey(dateKey: string, days: number): string {
+    const { year, month, day } = parseDateKey(dateKey);
+    const shifted = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+    return formatDateKey(
+        shifted.getUTCFullYear(),
+        shifted.getUTCMonth() + 1,
+        shifted.getUTCDate()
+    );
+}
+
+/**
+ * The UTC instant at which the wall-clock time `time` occurs on `dateKey`
+ * in `timeZone`. Handles DST shifts by re-checking the offset at the
+ * candidate instant.
+ */
+export function getScheduledTime(
+    dateKey: string,
+    time: string,
+    timeZone: string
+): Date {
+    const { year, month, day } = parseDateKey(dateKey);
+    const { hour, minute } = parseReportTime(time);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+    const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+    const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+    return new Date(wallClock - offset);
+}
+
+/**
+ * The most recent scheduled run at or before `now`.
+ */
+export function getLatestScheduledRun(
+    now: Date,
+    time: string,
+    timeZone: string,
+    isScheduledDay: ScheduleDayFilter = everyDay
+): ScheduledRun {
+    const today = toDateKey(now, timeZone);
+
+    for (let offset = 0; offset <= MAX_SCHEDULE_GAP_DAYS; offset++) {
+        const dateKey = shiftDateKey(today, -offset);
+        if (!isScheduledDay(dateKey)) {
+            continue;
+        }
+        const scheduledAt = getScheduledTime(dateKey, time, timeZone);
+        if (scheduledAt.getTime() <= now.getTime()) {
+            return { dateKey, scheduledAt };
+        }
+    }
+
+    throw new Error("No scheduled day found in the last month");
+}
+
+/**
+ * The first scheduled run strictly after `now`.
+ */
+export function getNextScheduledRun(
+    now: Date,
+    time: string,
+    timeZone: string,
+    isScheduledDay: ScheduleDayFilter = everyDay
+): ScheduledRun {
+    const today = toDateKey(now, timeZone);
+
+    for (let offset = 0; offset <= MAX_SCHEDULE_GAP_DAYS; offset++) {
+        const dateKey = shiftDateKey(today, offset);
+        if (!isScheduledDay(dateKey)) {
+            continue;
+        }
+        const scheduledAt = getScheduledTime(dateKey, time, timeZone);
+        if (scheduledAt.getTime() > now.getTime()) {
+            return { dateKey, scheduledAt };
+        }
+    }
+
+    throw new Error("No scheduled day found in the next month");
+}
@@ -0,0 +1,269 @@
+import {
+    composeContext,
+    elizaLogger,
+    generateText,
+    ModelClass,
+    type IAgentRuntime,
+    type State,
+} from "@elizaos/core";
+import type { Tweet } from "agent-twitter-client";
+import { z } from "zod";
+import type { SentimentAnalyzerType } from "../environment";
+import type { SentimentCounts } from "./snapshots";
+import { sentimentTemplate } from "./templates";
+
+export type SentimentLabel = keyof SentimentCounts;
+
+export interface SentimentScore {
+    /** From -1 (most negative) to 1 (most positive) */
+    score: number;
+    label: SentimentLabel;
+}
+
+export interface TweetSentiment extends SentimentScore {
+    tweetId: string;
+}
+
+/**
+ * Scores the sentiment of texts. Implementations return one score per
+ * text, in the same order.
+ */
+export interface SentimentAnalyzer {
+    readonly name: SentimentAnalyzerType;
+    analyze(texts: string[]): Promise<SentimentScore[]>;
+}
+
+// Scores within this distance of 0 are neutral
+const NEUTRAL_THRESHOLD = 0.05;
+// Keeps normalized scores below ±1 for long texts, as in VADER
+const NORMALIZATION_ALPHA = 15;
+const NEGATION_FACTOR = -0.74;
+const NEGATION_WINDOW = 3;
+const BOOSTER_WINDOW = 2;
+const MAX_EXCLAMATIONS = 3;
+const EXCLAMATION_BOOST = 0.3;
+const MAX_LLM_BATCH_SIZE = 25;
+
+export function labelSentiment(score: number): SentimentLabel {
+    if (score >= NEUTRAL_THRESHOLD) return "positive";
+    if (score <= -NEUTRAL_THRESHOLD) return "negative";
+    return "neutral";
+}
+
+const toSentimentScore = (score: number): SentimentScore => ({
+    score,
+    label: labelSentiment(score),
+});
+
+/**
+ * Word and emoji valences, from -3 to 3.
+ */
+export const DEFAULT_SENTIMENT_LEXICON: Record<string, number> = {
+    // positive words
+    agree: 1, amazing: 3, awesome: 3, beautiful: 3, best: 3, better: 2,
+    brilliant: 3, bullish: 2, congrats: 2, congratulations: 2, cool: 1,
+    easy: 1, enjoy: 2, excellent: 3, excited: 2, exciting: 2, fantastic: 3,
+    fast: 1, favorite: 2, fun: 2, gem: 2, glad: 2, good: 2, grateful: 2,
+    great: 3, happy: 2, impressive: 2, incredible: 3, innovative: 2, love: 3,
+    loved: 3, lol: 1, nice: 2, opportunity: 1, perfect: 3, promising: 2,
+    proud: 2, recommend: 2, safe: 1, secure: 1, solid: 1, strong: 1,
+    success: 2, successful: 2, support: 1, thank: 2, thanks: 2, welcome: 1,
+    win: 2, winning: 2, wins: 2, won: 2, wonderful: 3, wow: 2, yay: 2,
+    // negative words
+    angry: -2, annoyed: -2, awful: -3, bad: -2, bearish: -2, boring: -2,
+    broken: -2, bug: -1, bugs: -1, concern: -1, concerned: -1, crash: -2,
+    crashed: -2, delay: -1, delayed: -1, difficult: -1, disappointed: -2,
+    disappointing: -2, disappointment: -2, exploit: -2, fail: -2, failed: -2,
+    fails: -2, failure: -2, fear: -2, fraud: -3, hack: -2, hacked: -3,
+    hate: -3, hated: -3, horrible: -3, issue: -1, issues: -1, lose: -2,
+    losing: -2, loss: -2, lost: -1, outage: -2, pain: -2, painful: -2,
+    poor: -2, problem: -1, problems: -1, risk: -1, risky: -2, rugged: -3,
+    sad: -2, scam: -3, scary: -2, slow: -1, stupid: -2, sucks: -3,
+    terrible: -3, ugly: -2, useless: -2, vulnerability: -2, worried: -2,
+    worry: -2, worse: -2, worst: -3, wrong: -2,
+    // emoji
+    "😀": 2, "😃": 2, "😄": 2, "😁": 2, "😊": 2, "🙂": 1, "😂": 1, "🤣": 1,
+    "😍": 3, "🥰": 3, "❤": 3, "💙": 2, "💚": 2, "👍": 2, "👏": 2, "🙌": 2,
+    "🎉": 3, "🥳": 3, "🚀": 2, "🔥": 2, "💯": 2, "💪": 2, "✅": 1,
+    "😢": -2, "😭": -2, "😞": -2, "😔": -2, "😩": -2, "😤": -2, "😱": -2,
+    "😡": -3, "😠": -3, "🤬": -3, "🤮": -3, "💔": -3, "👎": -2, "💩": -2,
+    "❌": -1,
+};
+
+// Multipliers for the valence of the following words
+const BOOSTERS: Record<string, number> = {
+    absolutely: 1.5, extremely: 1.5, highly: 1.3, incredibly: 1.5,
+    really: 1.3, so: 1.3, super: 1.3, totally: 1.3, very: 1.3,
+    barely: 0.5, kinda: 0.6, slightly: 0.5, somewhat: 0.6,
+};
+
+const NEGATIONS = new Set([
+    "cannot", "hardly", "neither", "never", "no", "nobody", "none", "nor",
+    "not", "nothing", "without",
+]);
+
+const isNegation = (token: string) => NEGATIONS.has(token) || token.endsWith("n't");
+
+/**
+ * Lowercased words and emoji of a tweet. URLs and mentions are dropped,
+ * camel-cased hashtags are split into words ("#NotGreat" => "not", "great").
+ */
+export function tokenizeSentimentText(text: string): string[] {
+    const tokens =
+        text
+            .replace(/https?:\/\/\S+/g, " ")
+            .replace(/@\w+/g, " ")
+            .replace(/[‘’]/g, "'")
+            .replace(/\uFE0F/g, "")
+            .match(/#[\p{L}\p{N}_]+|[\p{L}\p{N}']+|\p{Extended_Pictographic}/gu) ?? [];
+
+    return tokens.flatMap((token) =>
+        token.startsWith("#")
+            ? token
+                  .slice(1)
+                  .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+                  .split(/[\s_]+/)
+                  .filter(Boolean)
+                  .map((word) => word.toLowerCase())
+            : [token.toLowerCase()]
+    );
+}
+
+/**
+ * Offline lexicon-based analyzer, in the spirit of VADER: sums word and
+ * emoji valences, scaled by preceding boosters ("very good") and flipped
+ * by preceding negations ("not good"), then normalizes to [-1, 1].
+ */
+export class LexiconSentimentAnalyzer implements SentimentAnalyzer {
+    readonly name = "lexicon";
+    private lexicon: Record<string, number>;
+
+    constructor(lexicon: Record<string, number> = {}) {
+        this.lexicon = { ...DEFAULT_SENTIMENT_LEXICON, ...lexicon };
+    }
+
+    scoreText(text: string): SentimentScore {
+        const tokens = tokenizeSentimentText(text);
+        let total = 0;
+
+        tokens.forEach((token, index) => {
+            let valence = this.lexicon[token];
+            if (!valence) {
+                return;
+            }
+
+            for (const previous of tokens.slice(Math.max(0, index - BOOSTER_WINDOW), index)) {
+                valence *= BOOSTERS[previous] ?? 1;
+            }
+            if (tokens.slice(Math.max(0, index - NEGATION_WINDOW), index).some(isNegation)) {
+                valence *= NEGATION_FACTOR;
+            }
+            total += valence;
+        });
+
+        if (total) {
+            const exclamations = Math.min(
+                (text.match(/!/g) ?? []).length,
+                MAX_EXCLAMATIONS
+            );
+            total += Math.sign(total) * exclamations * EXCLAMATION_BOOST;
+        }
+
+        return toSentimentScore(total / Math.sqrt(total * total + NORMALIZATION_ALPHA));
+    }
+
+    async analyze(texts: string[]): Promise<SentimentScore[]> {
+        return texts.map((text) => this.scoreText(text));
+    }
+}
+
+const llmScoresSchema = z.array(z.coerce.number().min(-1).max(1));
+
+/**
+ * Asks the model to score batches of texts. Batches with a missing or
+ * malformed answer are scored by the fallback analyzer instead.
+ */
+export class LlmSentimentAnalyzer implements SentimentAnalyzer {
+    readonly name = "llm";
+    private runtime: IAgentRuntime;
+    private fallback: SentimentAnalyzer;
+
+    constructor(
+        runtime: IAgentRuntime,
+        fallback: SentimentAnalyzer = new LexiconSentimentAnalyzer()
+    ) {
+        this.runtime = runtime;
+        this.fallback = fallback;
+    }
+
+    async analyze(texts: string[]): Promise<SentimentScore[]> {
+        const scores: SentimentScore[] = [];
+        for (let i = 0; i < texts.length; i += MAX_LLM_BATCH_SIZE) {
+            scores.push(...(await this.analyzeBatch(texts.slice(i, i + MAX_LLM_BATCH_SIZE))));
+        }
+        return scores;
+    }
+
+    private async analyzeBatch(texts: string[]): Promise<SentimentScore[]> {
+        try {
+            const context = composeContext({
+                state: {
+                    sentimentTexts: texts
+                        .map((text, index) => `${index + 1}. ${text.replace(/\s+/g, " ")}`)
+                        .join("\n"),
+                } as unknown as State,
+                template: sentimentTemplate,
+            });
+            const response = await generateText({
+                runtime: this.runtime,
+                context,
+                modelClass: ModelClass.SMALL,
+            });
+
+            const json = response.slice(response.indexOf("["), response.lastIndexOf("]") + 1);
+            const scores = llmScoresSchema.parse(JSON.parse(json));
+            if (scores.length !== texts.length) {
+                throw new Error(`Expected ${texts.length} scores, got ${scores.length}`);
+            }
+            return scores.map(toSentimentScore);
+        } catch (error) {
+            elizaLogger.warn(
+                `LLM sentiment analysis failed, using ${this.fallback.name} analyzer:`,
+                error
+            );
+            return this.fallback.analyze(texts);
+        }
+    }
+}
+
+export function createSentimentAnalyzer(
+    runtime: IAgentRuntime,
+    type: SentimentAnalyzerType
+): SentimentAnalyzer {
+    return type === "llm"
+        ? new LlmSentimentAnalyzer(runtime)
+        : new LexiconSentimentAnalyzer();
+}
+
+export async function analyzeTweetSentiment(
+    analyzer: SentimentAnalyzer,
+    tweets: Tweet[]
+): Promise<TweetSentiment[]> {
+    const scores = await analyzer.analyze(tweets.map((tweet) => tweet.text ?? ""));
+    return tweets.map((tweet, index) => ({ tweetId: tweet.id, ...scores[index] }));
+}
+
+export function countSentiment(scores: SentimentScore[]): SentimentCounts {
+    const counts: SentimentCounts = { positive: 0, neutral: 0, negative: 0 };
+    for (const { label } of scores) {
+        counts[label]++;
+    }
+    return counts;
+}
+
+/**
+ * "positive (+0.62)"
+ */
+export function formatSentiment({ score, label }: SentimentScore): string {
+    return `${label} (${score >= 0 ? "+" : ""}${score.toFixed(2)})`;
+}
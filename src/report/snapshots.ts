@@ -0,0 +1,232 @@
+import { elizaLogger, type IAgentRuntime } from "@elizaos/core";
+import type { DailyAnalysis } from "./analysis";
+import type { SharedLinks } from "./links";
+import type { UserActivity } from "./userActivity";
+
+// Roughly a year of daily history
+const MAX_SNAPSHOT_HISTORY = 366;
+
+export type SentimentCounts = {
+    positive: number;
+    neutral: number;
+    negative: number;
+};
+
+export interface SnapshotTheme {
+    name: string;
+    count: number;
+    sentiment?: string;
+}
+
+/**
+ * The parsed analysis of one day of target-user tweets.
+ */
+export interface DailyAnalysisSnapshot {
+    /** Report date (YYYY-MM-DD) in the report timezone */
+    date: string;
+    createdAt: number;
+    totalTweets: number;
+    themes: SnapshotTheme[];
+    trends: string[];
+    sentiment: SentimentCounts;
+    topHashtags: string[];
+    notableTweetIds: string[];
+    /** IDs of every tweet the report covered, kept for weekly/monthly digests */
+    tweetIds: string[];
+    userActivity: UserActivity[];
+    sharedLinks: SharedLinks;
+}
+
+export interface SnapshotDiff {
+    previousDate: string | null;
+    newThemes: string[];
+    droppedThemes: string[];
+    continuingThemes: string[];
+    /** Change in share of each sentiment, in percentage points */
+    sentimentShift: SentimentCounts;
+}
+
+export const normalizeThemeName = (name: string) =>
+    name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+/**
+ * Builds a snapshot from the day's computed statistics and the
+ * validated model analysis.
+ */
+export function buildDailySnapshot(
+    date: string,
+    stats: {
+        totalTweets: number;
+        topHashtags: string[];
+        sentiment: SentimentCounts;
+        sharedLinks?: SharedLinks;
+    },
+    analysis: DailyAnalysis,
+    tweetIds: string[] = [],
+    userActivity: UserActivity[] = []
+): DailyAnalysisSnapshot {
+    return {
+        date,
+        createdAt: Date.now(),
+        totalTweets: stats.totalTweets,
+        themes: analysis.themes.map((theme) => ({
+            name: theme.name,
+            count: theme.quantity,
+            sentiment: theme.emotion,
+        })),
+        trends: analysis.trends,
+        sentiment: stats.sentiment,
+        topHashtags: stats.topHashtags,
+        notableTweetIds: analysis.notable_tweets,
+        tweetIds,
+        userActivity,
+        sharedLinks: stats.sharedLinks ?? { links: [], domains: [] },
+    };
+}
+
+function sentimentShares(sentiment: SentimentCounts): SentimentCounts {
+    const total = sentiment.positive + sentiment.neutral + sentiment.negative;
+    if (!total) {
+        return { positive: 0, neutral: 0, negative: 0 };
+    }
+    return {
+        positive: (sentiment.positive / total) * 100,
+        neutral: (sentiment.neutral / total) * 100,
+        negative: (sentiment.negative / total) * 100,
+    };
+}
+
+export function diffSnapshots(
+    previous: DailyAnalysisSnapshot | null,
+    current: DailyAnalysisSnapshot
+): SnapshotDiff {
+    const currentThemes = new Map(
+        current.themes.map((theme) => [normalizeThemeName(theme.name), theme.name])
+    );
+    const previousThemes = new Map(
+        (previous?.themes ?? []).map((theme) => [
+            normalizeThemeName(theme.name),
+            theme.name,
+        ])
+    );
+
+    const currentShares = sentimentShares(current.sentiment);
+    const previousShares = previous
+        ? sentimentShares(previous.sentiment)
+        : currentShares;
+
+    return {
+        previousDate: previous?.date ?? null,
+        newThemes: [...currentThemes]
+            .filter(([key]) => previous && !previousThemes.has(key))
+            .map(([, name]) => name),
+        droppedThemes: [...previousThemes]
+            .filter(([key]) => !currentThemes.has(key))
+            .map(([, name]) => name),
+        continuingThemes: [...currentThemes]
+            .filter(([key]) => previousThemes.has(key))
+            .map(([, name]) => name),
+        sentimentShift: {
+            positive: Math.round(currentShares.positive - previousShares.positive),
+            neutral: Math.round(currentShares.neutral - previousShares.neutral),
+            negative: Math.round(currentShares.negative - previousShares.negative),
+        },
+    };
+}
+
+/**
+ * Renders a diff as the "what changed since yesterday" prompt block.
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+    if (!diff.previousDate) {
+        return "No previous report to compare with.";
+    }
+
+    const list = (items: string[]) => (items.length ? items.join(", ") : "none");
+    const signed = (value: number) => `${value > 0 ? "+" : ""}${value}pp`;
+
+    return [
+        `Compared with ${diff.previousDate}:`,
+        `- New themes: ${list(diff.newThemes)}`,
+        `- Dropped themes: ${list(diff.droppedThemes)}`,
+        `- Continuing themes: ${list(diff.continuingThemes)}`,
+        `- Sentiment shift: positive ${signed(diff.sentimentShift.positive)}, neutral ${signed(diff.sentimentShift.neutral)}, negative ${signed(diff.sentimentShift.negative)}`,
+    ].join("\n");
+}
+
+/**
+ * Stores one analysis snapshot per report date in the cache, with an
+ * index of stored dates so history can be queried by range.
+ */
+export class DailySnapshotStore {
+    private runtime: IAgentRuntime;
+    private keyPrefix: string;
+
+    /**
+     * @param cacheKeyPrefix Prefix of the report profile's cache keys, see
+     * `getReportCacheKeyPrefix`
+     */
+    constructor(runtime: IAgentRuntime, cacheKeyPrefix: string) {
+        this.runtime = runtime;
+        this.keyPrefix = `${cacheKeyPrefix}/dailyReport/snapshots`;
+    }
+
+    async save(snapshot: DailyAnalysisSnapshot): Promise<void> {
+        await this.runtime.cacheManager.set(
+            `${this.keyPrefix}/${snapshot.date}`,
+            snapshot
+        );
+
+        const dates = new Set(await this.listDates());
+        dates.add(snapshot.date);
+        const sortedDates = [...dates].sort();
+
+        // Drop the oldest snapshots beyond the retention limit
+        const expiredDates = sortedDates.splice(
+            0,
+            Math.max(sortedDates.length - MAX_SNAPSHOT_HISTORY, 0)
+        );
+        for (const date of expiredDates) {
+            await this.runtime.cacheManager.delete(`${this.keyPrefix}/${date}`);
+        }
+
+        await this.runtime.cacheManager.set(this.keyPrefix, sortedDates);
+        elizaLogger.debug(`Saved daily analysis snapshot for ${snapshot.date}`);
+    }
+
+    async get(date: string): Promise<DailyAnalysisSnapshot | null> {
+        return (
+            (await this.runtime.cacheManager.get<DailyAnalysisSnapshot>(
+                `${this.keyPrefix}/${date}`
+            )) ?? null
+        );
+    }
+
+    /**
+     * All stored snapshot dates, oldest first.
+     */
+    async listDates(): Promise<string[]> {
+        return (await this.runtime.cacheManager.get<string[]>(this.keyPrefix)) ?? [];
+    }
+
+    /**
+     * Snapshots with dates in [from, to], oldest first.
+     */
+    async getRange(from: string, to: string): Promise<DailyAnalysisSnapshot[]> {
+        const dates = (await this.listDates()).filter(
+            (date) => date >= from && date <= to
+        );
+        const snapshots = await Promise.all(dates.map((date) => this.get(date)));
+        return snapshots.filter(Boolean);
+    }
+
+    /**
+     * The most recent snapshot strictly before `date`.
+     */
+    async getLatestBefore(date: string): Promise<DailyAnalysisSnapshot | null> {
+        const previousDate = (await this.listDates())
+            .filter((storedDate) => storedDate < date)
+            .pop();
+        return previousDate ? this.get(previousDate) : null;
+    }
+}
@@ -0,0 +1,87 @@
+import type { Tweet } from "agent-twitter-client";
+
+export type ReportSourceKind = "account" | "search";
+
+/**
+ * How each kind of source is named in prompts and archives.
+ */
+export const REPORT_SOURCE_LABELS: Record<ReportSourceKind, string> = {
+    account: "tracked accounts",
+    search: "wider conversation",
+};
+
+/**
+ * One search feeding a report: a tracked account (`from:<user>`) or an
+ * arbitrary search query, e.g. hashtags, keywords or operators such as
+ * `min_faves:100` and `lang:en`.
+ */
+export interface ReportSource {
+    kind: ReportSourceKind;
+    query: string;
+    /** "@user" for accounts, the query itself otherwise */
+    label: string;
+}
+
+export function buildReportSources(
+    targetUsers: string[],
+    searchQueries: string[]
+): ReportSource[] {
+    return [
+        ...targetUsers.map((username) => ({
+            kind: "account" as const,
+            query: `from:${username}`,
+            label: `@${username}`,
+        })),
+        ...searchQueries.map((query) => ({
+            kind: "search" as const,
+            query,
+            label: query,
+        })),
+    ];
+}
+
+/**
+ * Tags each tweet by its author rather than by the search that found it,
+ * so a tracked account's tweet matching a search query still counts as
+ * coming from the tracked accounts.
+ */
+export function tagTweetSources(
+    tweets: Tweet[],
+    targetUsers: string[]
+): Map<string, ReportSourceKind> {
+    const accounts = new Set(targetUsers.map((username) => username.toLowerCase()));
+    return new Map(
+        tweets.map((tweet) => [
+            tweet.id,
+            accounts.has(tweet.username?.toLowerCase()) ? "account" : "search",
+        ])
+    );
+}
+
+/**
+ * Tweet count and searches per kind of source, for the report prompts:
+ *
+ * From tracked accounts: 12 tweets (@dfinity, @icp_news)
+ * From the wider conversation: 30 tweets ("#ICP lang:en")
+ */
+export function formatSourceBreakdown(
+    sources: ReportSource[],
+    tags: Map<string, ReportSourceKind>
+): string {
+    const counts = { account: 0, search: 0 };
+    for (const kind of tags.values()) {
+        counts[kind]++;
+    }
+
+    return (["account", "search"] as const)
+        .map((kind) => {
+            const searches = sources
+                .filter((source) => source.kind === kind)
+                .map((source) => (kind === "search" ? `"${source.label}"` : source.label));
+            const heading = `From ${kind === "search" ? "the " : ""}${REPORT_SOURCE_LABELS[kind]}`;
+            return searches.length
+                ? `${heading}: ${counts[kind]} tweet${counts[kind] === 1 ? "" : "s"} (${searches.join(", ")})`
+                : `${heading}: none`;
+        })
+        .join("\n");
+}
@@ -0,0 +1,286 @@
+import type { Tweet } from "agent-twitter-client";
+import {
+    DEFAULT_ENGAGEMENT_WEIGHTS,
+    ENGAGEMENT_METRICS,
+    getEngagementCounts,
+    scoreTweet,
+    type EngagementCounts,
+    type EngagementWeights,
+} from "./engagement";
+import { getTweetTime } from "./collector";
+
+// Character shingles work for short tweets and for scripts without spaces
+const SHINGLE_SIZE = 5;
+const MINHASH_SIZE = 128;
+// 32 bands of 4 rows: pairs above ~50% similarity almost always share a band
+const LSH_BANDS = 32;
+const LSH_ROWS = MINHASH_SIZE / LSH_BANDS;
+
+export const DEFAULT_STORY_SIMILARITY = 0.8;
+
+/**
+ * Tweets reporting the same thing: near-duplicate texts and the quotes
+ * and retweets of one tweet, counted as one.
+ */
+export interface ReportStory {
+    /** ID of the lead tweet */
+    id: string;
+    /** The lead tweet, carrying the engagement of the whole story */
+    tweet: Tweet;
+    tweetIds: string[];
+    /** Distinct authors, the lead tweet's first */
+    authors: string[];
+    /** Engagement summed over the story's tweets */
+    counts: EngagementCounts;
+}
+
+export interface CollapseStoriesOptions {
+    /** Estimated Jaccard similarity of the shingles at which texts are merged */
+    similarity?: number;
+    /** Weights used to pick each story's lead tweet */
+    weights?: EngagementWeights;
+}
+
+// murmur3 finalizer, spreads the bits of a 32-bit integer
+function mix32(value: number): number {
+    value ^= value >>> 16;
+    value = Math.imul(value, 0x85ebca6b);
+    value ^= value >>> 13;
+    value = Math.imul(value, 0xc2b2ae35);
+    value ^= value >>> 16;
+    return value >>> 0;
+}
+
+function hashString(text: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) =>
+    mix32(Math.imul(i + 1, 0x9e3779b9))
+);
+
+/**
+ * Text with links, the "RT @user:" prefix, leading mentions, case and
+ * punctuation removed, so copies posted by different accounts compare equal.
+ */
+export function normalizeStoryText(text: string): string {
+    return text
+        .replace(/https?:\/\/\S+/g, " ")
+        .replace(/^RT @\w+:/, " ")
+        .replace(/^(?:\s*@\w+)+/, " ")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}#@]+/gu, " ")
+        .trim();
+}
+
+/**
+ * Overlapping character shingles of the normalized text. Texts shorter
+ * than a shingle are a single shingle.
+ */
+export function getShingles(text: string): Set<string> {
+    const normalized = normalizeStoryText(text);
+    const chars = [...normalized];
+    if (chars.length <= SHINGLE_SIZE) {
+        return new Set(normalized ? [normalized] : []);
+    }
+
+    const shingles = new Set<string>();
+    for (let i = 0; i + SHINGLE_SIZE <= chars.length; i++) {
+        shingles.add(chars.slice(i, i + SHINGLE_SIZE).join(""));
+    }
+    return shingles;
+}
+
+/**
+ * MinHash signature: the lowest hash of the shingles under each of the
+ * seeded hash functions.
+ */
+export function computeMinHash(shingles: Set<string>): Uint32Array {
+    const signature = new Uint32Array(MINHASH_SIZE).fill(0xffffffff);
+    for (const shingle of shingles) {
+        const hash = hashString(shingle);
+        for (let i = 0; i < MINHASH_SIZE; i++) {
+            const value = mix32(hash ^ MINHASH_SEEDS[i]);
+            if (value < signature[i]) {
+                signature[i] = value;
+            }
+        }
+    }
+    return signature;
+}
+
+/**
+ * Share of equal signature rows, an estimate of the Jaccard similarity
+ * of the underlying shingle sets.
+ */
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+    let equal = 0;
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+        if (a[i] === b[i]) {
+            equal++;
+        }
+    }
+    return equal / MINHASH_SIZE;
+}
+
+class UnionFind {
+    private parents = new Map<string, string>();
+
+    find(id: string): string {
+        let root = id;
+        while (this.parents.has(root) && this.parents.get(root) !== root) {
+            root = this.parents.get(root);
+        }
+        // Path compression
+        while (id !== root) {
+            const next = this.parents.get(id) ?? root;
+            this.parents.set(id, root);
+            id = next;
+        }
+        return root;
+    }
+
+    union(a: string, b: string) {
+        const rootA = this.find(a);
+        const rootB = this.find(b);
+        if (rootA !== rootB) {
+            this.parents.set(rootB, rootA);
+        }
+    }
+}
+
+/**
+ * IDs of the tweets a tweet quotes or retweets.
+ */
+function getReferencedIds(tweet: Tweet): string[] {
+    return [
+        tweet.quotedStatusId ?? tweet.quotedStatus?.id,
+        tweet.retweetedStatusId ?? tweet.retweetedStatus?.id,
+    ].filter(Boolean);
+}
+
+/**
+ * Builds a story from its tweets. The lead is the most engaged tweet
+ * with text of its own (retweets only lead stories made of retweets),
+ * the earliest one on ties.
+ */
+export function buildStory(
+    tweets: Tweet[],
+    weights: EngagementWeights = DEFAULT_ENGAGEMENT_WEIGHTS
+): ReportStory {
+    const [lead] = [...tweets].sort(
+        (a, b) =>
+            Number(Boolean(a.isRetweet)) - Number(Boolean(b.isRetweet)) ||
+            scoreTweet(b, weights) - scoreTweet(a, weights) ||
+            (getTweetTime(a) ?? Infinity) - (getTweetTime(b) ?? Infinity)
+    );
+
+    const counts = Object.fromEntries(
+        ENGAGEMENT_METRICS.map((metric) => [
+            metric,
+            tweets.reduce((sum, tweet) => sum + getEngagementCounts(tweet)[metric], 0),
+        ])
+    ) as EngagementCounts;
+
+    const authors = [lead, ...tweets]
+        .map((tweet) => tweet.username)
+        .filter(Boolean)
+        .filter(
+            (username, index, usernames) =>
+                usernames.findIndex(
+                    (other) => other.toLowerCase() === username.toLowerCase()
+                ) === index
+        );
+
+    return {
+        id: lead.id,
+        tweet: {
+            ...lead,
+            likes: counts.likes,
+            retweets: counts.retweets,
+            replies: counts.replies,
+            quotes: counts.quotes,
+            bookmarkCount: counts.bookmarks,
+            views: counts.views,
+        } as Tweet,
+        tweetIds: tweets.map((tweet) => tweet.id),
+        authors,
+        counts,
+    };
+}
+
+/**
+ * Collapses tweets into stories. Tweets are merged when their MinHash
+ * signatures reach `similarity`, and when one quotes or retweets another
+ * or both quote or retweet the same tweet. Candidate pairs come from
+ * locality-sensitive hashing of the signature bands, so the cost stays
+ * linear in the number of tweets. Stories keep the order of their first
+ * tweet.
+ */
+export function collapseStories(
+    tweets: Tweet[],
+    { similarity = DEFAULT_STORY_SIMILARITY, weights }: CollapseStoriesOptions = {}
+): ReportStory[] {
+    const groups = new UnionFind();
+
+    for (const tweet of tweets) {
+        for (const referencedId of getReferencedIds(tweet)) {
+            groups.union(referencedId, tweet.id);
+        }
+    }
+
+    const signatures = new Map<string, Uint32Array>();
+    const buckets = new Map<string, string[]>();
+    for (const tweet of tweets) {
+        // Retweets repeat the original text, the chain already links them
+        const shingles = tweet.isRetweet ? new Set<string>() : getShingles(tweet.text ?? "");
+        if (!shingles.size) {
+            continue;
+        }
+
+        const signature = computeMinHash(shingles);
+        signatures.set(tweet.id, signature);
+        for (let band = 0; band < LSH_BANDS; band++) {
+            const key = `${band}:${signature
+                .subarray(band * LSH_ROWS, (band + 1) * LSH_ROWS)
+                .join(",")}`;
+            const bucket = buckets.get(key) ?? [];
+            for (const candidateId of bucket) {
+                if (
+                    groups.find(candidateId) !== groups.find(tweet.id) &&
+                    estimateSimilarity(signature, signatures.get(candidateId)) >= similarity
+                ) {
+                    groups.union(candidateId, tweet.id);
+                }
+            }
+            bucket.push(tweet.id);
+            buckets.set(key, bucket);
+        }
+    }
+
+    const members = new Map<string, Tweet[]>();
+    for (const tweet of tweets) {
+        const root = groups.find(tweet.id);
+        members.set(root, [...(members.get(root) ?? []), tweet]);
+    }
+
+    return [...members.values()].map((storyTweets) => buildStory(storyTweets, weights));
+}
+
+/**
+ * "3 tweets by @alice, @bob" for stories of several tweets, null otherwise.
+ */
+export function formatStory(story: ReportStory): string | null {
+    if (story.tweetIds.length < 2) {
+        return null;
+    }
+    return `${story.tweetIds.length} tweets by ${story.authors
+        .map((author) => `@${author}`)
+        .join(", ")} (IDs: ${story.tweetIds.join(", ")})`;
+}
@@ -0,0 +1,206 @@
+export const dailyAnalysisTemplate = `
+Please analyze the following tweets to extract key themes and trends:
+Current tweets (total {{twitterCount}}, {{formattedTweets}})
+
+Sources (each tweet is tagged as coming from the tracked accounts or the wider conversation):
+{{sourceBreakdown}}
+
+Topic clusters (all tweets grouped by shared keywords, with sample tweets):
+{{topicClusters}}
+
+Contents to be analyzed:
+1. Identify 3-5 main discussion topics (sort by frequency), using the topic clusters as evidence
+2. Count the number of relevant tweets for each topic
+3. Mark significant sentiment (positive/neutral/negative)
+4. Discover any discussion trends across users, and where the tracked accounts and the wider conversation differ
+5. Identify important tweets with multiple citations
+
+Please return the analysis results in JSON format, including the following fields:
+- themes: array of themes (including name, quantity, emotion)
+- trends: trend description (1-3 items)
+- top_mentions: The top 3 users with the most mentions
+- notable_tweets: array of notable tweet IDs
+
+Return only the JSON object, for example:
+\`\`\`json
+{
+  "themes": [{ "name": "AI agents", "quantity": 12, "emotion": "positive" }],
+  "trends": ["More projects are shipping on-chain AI agents"],
+  "top_mentions": ["@dfinity"],
+  "notable_tweets": ["1880000000000000000"]
+}
+\`\`\`
+emotion must be one of "positive", "neutral" or "negative".
+`;
+
+export const dailyAnalysisRepairTemplate = `
+# PREVIOUS RESPONSE
+{{previousResponse}}
+
+# VALIDATION ERRORS
+{{validationErrors}}
+
+The previous response does not match the required format. Fix the errors above and return only the corrected JSON object.
+`;
+
+/**
+ * Appended to custom report templates that do not mention
+ * {{reportLanguage}} themselves.
+ */
+export const reportLanguageTemplate = `
+# LANGUAGE
+Write the report in {{reportLanguage}}. Keep section headings and hashtags as the instructions above give them.
+`;
+
+export const reportRepairTemplate = `
+# PREVIOUS REPORT
+{{previousReport}}
+
+# ISSUES
+{{reportIssues}}
+
+The previous report has the issues listed above. Rewrite it: only link tweets listed above, only use numbers that appear in the data, leave out figures you cannot back up, do not add footnote markers, stay within the length limit and keep writing in {{reportLanguage}}. Return only the report.
+`;
+
+/**
+ * Section headings of each report, used to split it into a thread.
+ */
+export const dailyReportSections = [
+    "Daily Insights",
+    "Hot Topics",
+    "Trend Observation",
+    "Wider Conversation",
+    "Account Activity",
+    "Most Shared Links",
+    "Agent Activity",
+];
+export const weeklyReportSections = ["Weekly Recap", "Top Themes", "Looking Ahead"];
+export const monthlyReportSections = ["Monthly Recap", "Top Themes", "What Changed"];
+
+export const dailyReportTemplate = `
+# DAILY REPORT GENERATION TASK
+{{summaryData}}
+
+# CHANGES SINCE YESTERDAY:
+{{changesSinceYesterday}}
+
+# SOURCES:
+{{sourceBreakdown}}
+
+# ABOUT {{agentName}} (@{{twitterUserName}}):
+{{bio}}
+{{postDirections}}
+
+# INSTRUCTIONS:
+1. Generate a concise daily report in {{reportLanguage}}, in bullet points
+2. Highlight key trends from target users' tweets
+3. Contains three parts: "Daily Insights", "Hot Topics", and "Trend Observation"; keep these part names in English whatever the report language
+4. When the sources include both tracked accounts and the wider conversation, keep the first three parts about the tracked accounts and add a fourth part "Wider Conversation" for the rest
+5. List relevant tweet links for each topic
+6. Mention what changed since yesterday (new or dropped themes, sentiment shift) when it is notable
+7. Use a lighthearted tone that's appropriate for social media
+8. Use emojis for visual appeal (max 3)
+9. Format requirements:
+   - Start with 📊 **Daily Insights**
+   - 3-5 main points
+   - Each bullet point occupies one line
+   - Each point < 100 characters
+   - Total length < 280 characters, where emojis and Chinese, Japanese or Korean characters count as 2
+   - Include relevant hashtags (max 2)
+10. Only link tweets listed under CURRENT DATA and only state numbers found in the data; never invent statistics or add footnote markers
+
+# EXAMPLE:
+📊 Daily Insights
+• AI + DeFi integration led the day 🤖 - ICP's AI-powered smart contracts are gaining traction https://x.com/dfinity/status/1880000000000000000
+• OpenChat's user growth 🚀 - The decentralized social app on ICP keeps adding active users
+• BTC-ICP Chain Fusion adoption rising 🔗 - More projects leverage direct Bitcoin smart contracts
+🏅 Hot Topics
+• "Sovereign Cloud" by DFINITY ☁️ - The Utopia project aims for censorship-resistant AI/cloud infrastructure
+• ICP's throughput milestone ⚡ - Teams compare it with Solana & Aptos
+• DeFi TVL on Sui 📈 - Move-language rival highlights competitive pressure
+🔍 Trend Observations
+• AI agents on ICP 🤖 - Decentralized AI models now interact directly with smart contracts
+• Long-term AGI roadmaps ⏳ - ICP's DAO governance is exploring AI alignment frameworks
+• Regulatory scrutiny 🛡️ - New SEC guidelines may impact ICP's DeFi integrations
+#ICP #BlockchainTrends #DeFi #AICrypto
+
+# CURRENT DATA:
+{{formattedTweets}}
+`;
+
+export const userActivitySummaryTemplate = `
+# TASK
+Write a one-line summary (under 100 characters) of what each account tweeted about.
+
+{{userTweets}}
+
+Return only a JSON object mapping each username (without @) to its summary, for example:
+{"user1": "Shipped a new SDK release and teased a hackathon"}
+`;
+
+export const sentimentTemplate = `
+# TASK
+Rate the sentiment of each numbered text from -1 (very negative) to 1 (very positive), 0 being neutral.
+Take sarcasm, negation and emoji into account.
+
+{{sentimentTexts}}
+
+Return only a JSON array with one number per text, in the same order, for example:
+[0.8, -0.4, 0]
+`;
+
+export const weeklyReportTemplate = `
+# WEEKLY RECAP GENERATION TASK
+Period: {{periodStart}} to {{periodEnd}}
+{{digestData}}
+
+# ABOUT {{agentName}} (@{{twitterUserName}}):
+{{bio}}
+{{postDirections}}
+
+# INSTRUCTIONS:
+1. Generate a concise weekly recap in {{reportLanguage}}, in bullet points
+2. Focus on the themes that ran through the whole week rather than single days
+3. Contains three parts: "Weekly Recap", "Top Themes", and "Looking Ahead"; keep these part names in English whatever the recap language
+4. List relevant tweet links for the biggest themes
+5. Mention how sentiment moved over the week when it is notable
+6. Use a lighthearted tone that's appropriate for social media
+7. Use emojis for visual appeal (max 3)
+8. Format requirements:
+   - Start with 🗓️ **Weekly Recap**
+   - 3-5 main points
+   - Each bullet point occupies one line
+   - Each point < 100 characters
+   - Include relevant hashtags (max 2)
+
+# NOTABLE TWEETS THIS WEEK:
+{{formattedTweets}}
+`;
+
+export const monthlyReportTemplate = `
+# MONTHLY RECAP GENERATION TASK
+Period: {{periodStart}} to {{periodEnd}}
+{{digestData}}
+
+# ABOUT {{agentName}} (@{{twitterUserName}}):
+{{bio}}
+{{postDirections}}
+
+# INSTRUCTIONS:
+1. Generate a concise month-end recap in {{reportLanguage}}, in bullet points
+2. Focus on the themes that shaped the month and the ones that emerged or faded
+3. Contains three parts: "Monthly Recap", "Top Themes", and "What Changed"; keep these part names in English whatever the recap language
+4. List relevant tweet links for the biggest themes
+5. Mention how sentiment moved over the month when it is notable
+6. Use a lighthearted tone that's appropriate for social media
+7. Use emojis for visual appeal (max 3)
+8. Format requirements:
+   - Start with 📅 **Monthly Recap**
+   - 3-5 main points
+   - Each bullet point occupies one line
+   - Each point < 100 characters
+   - Include relevant hashtags (max 2)
+
+# NOTABLE TWEETS THIS MONTH:
+{{formattedTweets}}
+`;
@@ -0,0 +1,110 @@
+import { getWeightedLength, splitByWeightedLength } from "./format";
+
+// Room for a "\n12/12" part counter
+const NUMBERING_RESERVE = 6;
+
+export interface RenderThreadOptions {
+    /** Section headings that start a new tweet, e.g. "Hot Topics" */
+    sections: string[];
+    maxLength: number;
+    /** Append a "1/3" counter to each tweet */
+    numbering?: boolean;
+}
+
+const isBulletLine = (line: string) => /^\s*([•\-–]|\*\s)/.test(line);
+
+/**
+ * Matches heading lines such as "📊 **Daily Insights**", "## Hot Topics"
+ * or "2. 🔍 Trend Observations", with or without section numbers.
+ */
+export function isSectionHeading(line: string, sections: string[]): boolean {
+    if (isBulletLine(line)) {
+        return false;
+    }
+    const text = line.replace(/^[^\p{L}]+/u, "").toLowerCase();
+    return sections.some((section) => text.startsWith(section.toLowerCase()));
+}
+
+/**
+ * Splits report text into sections at the given headings. Text before the
+ * first heading stays with the first section.
+ */
+export function splitReportSections(content: string, sections: string[]): string[] {
+    const blocks: string[][] = [];
+    let current: string[] = [];
+
+    for (const line of content.split("\n")) {
+        if (isSectionHeading(line, sections) && current.some((l) => isSectionHeading(l, sections))) {
+            blocks.push(current);
+            current = [];
+        }
+        current.push(line);
+    }
+    blocks.push(current);
+
+    return blocks
+        .map((block) => block.join("\n").trim())
+        .filter(Boolean);
+}
+
+/**
+ * Packs the lines of one section into as few tweets as possible,
+ * splitting single lines that are too long on their own. Lengths are
+ * weighted the way Twitter counts them.
+ */
+function packSection(section: string, maxLength: number): string[] {
+    if (getWeightedLength(section) <= maxLength) {
+        return [section];
+    }
+
+    const parts: string[] = [];
+    let current = "";
+
+    for (const line of section.split("\n").filter((l) => l.trim())) {
+        const pieces =
+            getWeightedLength(line) > maxLength
+                ? splitByWeightedLength(line, maxLength)
+                : [line];
+
+        for (const piece of pieces) {
+            const candidate = current ? `${current}\n${piece}` : piece;
+            if (getWeightedLength(candidate) <= maxLength) {
+                current = candidate;
+            } else {
+                if (current) {
+                    parts.push(current);
+                }
+                current = piece;
+            }
+        }
+    }
+
+    if (current) {
+        parts.push(current);
+    }
+
+    return parts;
+}
+
+/**
+ * Renders a report as thread parts: one tweet per section, with sections
+ * longer than `maxLength` continued in the following tweets.
+ */
+export function renderReportThread(
+    content: string,
+    options: RenderThreadOptions
+): string[] {
+    const budget = options.numbering
+        ? options.maxLength - NUMBERING_RESERVE
+        : options.maxLength;
+
+    const parts = splitReportSections(content, options.sections).flatMap(
+        (section) => packSection(section, budget)
+    );
+
+    if (!options.numbering || parts.length < 2) {
+        return parts;
+    }
+
+    return parts.map((part, index) => `${part}\n${index + 1}/${parts.length}`);
+}
@@ -0,0 +1,215 @@
+import type { Tweet } from "agent-twitter-client";
+
+const MAX_TOPIC_CLUSTERS = 8;
+const MIN_CLUSTER_SIZE = 2;
+const MAX_KMEANS_ITERATIONS = 20;
+const CLUSTER_KEYWORDS = 3;
+const MAX_SAMPLE_LENGTH = 200;
+
+const STOPWORDS = new Set([
+    "about", "after", "again", "all", "also", "amp", "and", "any", "are",
+    "because", "been", "before", "being", "but", "can", "could", "did", "does",
+    "doing", "dont", "down", "each", "even", "for", "from", "get", "gets",
+    "got", "had", "has", "have", "here", "his", "her", "how", "its", "just",
+    "let", "like", "make", "more", "most", "much", "need", "new", "not", "now",
+    "off", "one", "only", "our", "out", "over", "really", "she", "should",
+    "some", "still", "than", "that", "the", "their", "them", "then", "there",
+    "these", "they", "this", "those", "too", "very", "via", "want", "was",
+    "way", "well", "were", "what", "when", "where", "which", "while", "who",
+    "why", "will", "with", "would", "you", "your",
+]);
+
+export interface TopicCluster {
+    /** Top keywords joined, e.g. "agents, icp, mainnet" */
+    label: string;
+    keywords: string[];
+    /** Member tweets, closest to the cluster center first */
+    tweetIds: string[];
+}
+
+type TermVector = Map<string, number>;
+
+/**
+ * Lowercased content words of a tweet, without URLs, mentions, numbers
+ * and stopwords. Hashtags count as words.
+ */
+export function tokenizeTopicText(text: string): string[] {
+    const words: string[] =
+        text
+            .toLowerCase()
+            .replace(/https?:\/\/\S+/g, " ")
+            .replace(/@\w+/g, " ")
+            .replace(/['‘’]/g, "")
+            .match(/[\p{L}][\p{L}\p{N}_]+/gu) ?? [];
+
+    return words.filter((word) => word.length > 2 && !STOPWORDS.has(word));
+}
+
+function dot(a: TermVector, b: TermVector): number {
+    const [small, large] = a.size < b.size ? [a, b] : [b, a];
+    let sum = 0;
+    for (const [term, weight] of small) {
+        sum += weight * (large.get(term) ?? 0);
+    }
+    return sum;
+}
+
+function normalize(vector: TermVector): TermVector {
+    const norm = Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+    return norm
+        ? new Map([...vector].map(([term, weight]) => [term, weight / norm]))
+        : vector;
+}
+
+function centroid(vectors: TermVector[]): TermVector {
+    const sum: TermVector = new Map();
+    for (const vector of vectors) {
+        for (const [term, weight] of vector) {
+            sum.set(term, (sum.get(term) ?? 0) + weight);
+        }
+    }
+    return normalize(sum);
+}
+
+/**
+ * L2-normalized TF-IDF vector of each document's terms.
+ */
+export function buildTfIdfVectors(documents: string[][]): TermVector[] {
+    const documentFrequency = new Map<string, number>();
+    for (const terms of documents) {
+        for (const term of new Set(terms)) {
+            documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+        }
+    }
+
+    return documents.map((terms) => {
+        const counts: TermVector = new Map();
+        for (const term of terms) {
+            counts.set(term, (counts.get(term) ?? 0) + 1);
+        }
+        return normalize(
+            new Map(
+                [...counts].map(([term, count]) => [
+                    term,
+                    // smoothed idf, so terms in every tweet keep a small weight
+                    count * (Math.log((1 + documents.length) / (1 + documentFrequency.get(term))) + 1),
+                ])
+            )
+        );
+    });
+}
+
+/**
+ * Farthest-point initialization: starts from the first document and adds
+ * the document least similar to all chosen centers, which keeps the
+ * clustering deterministic.
+ */
+function initialCenters(vectors: TermVector[], k: number): TermVector[] {
+    const centers = [vectors[0]];
+    const closest = vectors.map((vector) => dot(vector, vectors[0]));
+
+    while (centers.length < k) {
+        const next = closest.indexOf(Math.min(...closest));
+        centers.push(vectors[next]);
+        vectors.forEach((vector, i) => {
+            closest[i] = Math.max(closest[i], dot(vector, vectors[next]));
+        });
+    }
+    return centers;
+}
+
+/**
+ * Groups tweets into topics with spherical k-means over TF-IDF vectors.
+ * Clusters smaller than `minClusterSize` are dropped, the rest are
+ * labeled with their heaviest terms and returned largest first.
+ */
+export function clusterTweets(
+    tweets: Tweet[],
+    maxClusters = MAX_TOPIC_CLUSTERS,
+    minClusterSize = MIN_CLUSTER_SIZE
+): TopicCluster[] {
+    const documents = tweets
+        .map((tweet) => ({ tweet, terms: tokenizeTopicText(tweet.text ?? "") }))
+        .filter(({ terms }) => terms.length);
+    if (documents.length < minClusterSize) {
+        return [];
+    }
+
+    const vectors = buildTfIdfVectors(documents.map(({ terms }) => terms));
+    const k = Math.min(
+        maxClusters,
+        Math.max(1, Math.round(Math.sqrt(documents.length / 2)))
+    );
+
+    let centers = initialCenters(vectors, k);
+    let assignments: number[] = [];
+
+    for (let iteration = 0; iteration < MAX_KMEANS_ITERATIONS; iteration++) {
+        const next = vectors.map((vector) => {
+            const similarities = centers.map((center) => dot(vector, center));
+            return similarities.indexOf(Math.max(...similarities));
+        });
+        if (next.every((cluster, i) => cluster === assignments[i])) {
+            break;
+        }
+        assignments = next;
+        centers = centers.map((center, cluster) => {
+            const members = vectors.filter((_, i) => assignments[i] === cluster);
+            return members.length ? centroid(members) : center;
+        });
+    }
+
+    return centers
+        .map((center, cluster) => {
+            const members = documents
+                .map((document, i) => ({ document, vector: vectors[i], i }))
+                .filter(({ i }) => assignments[i] === cluster)
+                .sort((a, b) => dot(b.vector, center) - dot(a.vector, center));
+            const keywords = [...center]
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, CLUSTER_KEYWORDS)
+                .map(([term]) => term);
+
+            return {
+                label: keywords.join(", "),
+                keywords,
+                tweetIds: members.map(({ document }) => document.tweet.id),
+            };
+        })
+        .filter((cluster) => cluster.tweetIds.length >= minClusterSize)
+        .sort((a, b) => b.tweetIds.length - a.tweetIds.length);
+}
+
+/**
+ * Clusters with their size and a few representative tweets, for the
+ * analysis prompt.
+ */
+export function formatTopicClusters(
+    clusters: TopicCluster[],
+    tweets: Tweet[],
+    samplesPerCluster = 3
+): string {
+    if (!clusters.length) {
+        return "No topic clusters found";
+    }
+
+    const tweetsById = new Map(tweets.map((tweet) => [tweet.id, tweet]));
+    return clusters
+        .map((cluster, index) => {
+            const samples = cluster.tweetIds
+                .slice(0, samplesPerCluster)
+                .map((id) => tweetsById.get(id))
+                .filter(Boolean)
+                .map(
+                    (tweet) =>
+                        `- [${tweet.id}] @${tweet.username}: ${tweet.text
+                            .replace(/\s+/g, " ")
+                            .slice(0, MAX_SAMPLE_LENGTH)}`
+                );
+            return [
+                `Cluster ${index + 1}: ${cluster.label} (${cluster.tweetIds.length} tweets)`,
+                ...samples,
+            ].join("\n");
+        })
+        .join("\n\n");
+}
@@ -0,0 +1,181 @@
+import {
+    composeContext,
+    elizaLogger,
+    generateText,
+    ModelClass,
+    type IAgentRuntime,
+    type State,
+} from "@elizaos/core";
+import type { Tweet } from "agent-twitter-client";
+import { z } from "zod";
+import {
+    DEFAULT_ENGAGEMENT_WEIGHTS,
+    scoreTweet,
+    type EngagementWeights,
+} from "./engagement";
+import { userActivitySummaryTemplate } from "./templates";
+
+const MAX_TOP_HASHTAGS = 3;
+const MAX_SUMMARY_TWEETS_PER_USER = 10;
+const MAX_SUMMARY_LENGTH = 120;
+
+export const ACCOUNT_ACTIVITY_HEADING = "👥 Account Activity";
+
+/**
+ * What one target account posted during the report window.
+ */
+export interface UserActivity {
+    username: string;
+    tweetCount: number;
+    likes: number;
+    retweets: number;
+    replies: number;
+    topTweet: {
+        id: string;
+        text: string;
+        permanentUrl: string;
+        likes: number;
+        retweets: number;
+    } | null;
+    topHashtags: string[];
+    /** One-line model summary, empty when unavailable */
+    summary: string;
+}
+
+function topHashtags(tweets: Tweet[]): string[] {
+    const counts = new Map<string, number>();
+    for (const tag of tweets.flatMap((tweet) => tweet.hashtags ?? [])) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_TOP_HASHTAGS)
+        .map(([tag]) => tag);
+}
+
+/**
+ * Groups tweets by author (case-insensitive) and computes the activity of
+ * every target user, including users who did not tweet. The top tweet is
+ * the one with the highest engagement score.
+ */
+export function computeUserActivity(
+    targetUsers: string[],
+    tweets: Tweet[],
+    weights: EngagementWeights = DEFAULT_ENGAGEMENT_WEIGHTS
+): UserActivity[] {
+    return targetUsers.map((username) => {
+        const userTweets = tweets.filter(
+            (tweet) => tweet.username?.toLowerCase() === username.toLowerCase()
+        );
+        const top = userTweets.reduce<Tweet | null>(
+            (best, tweet) =>
+                !best || scoreTweet(tweet, weights) > scoreTweet(best, weights)
+                    ? tweet
+                    : best,
+            null
+        );
+
+        return {
+            username,
+            tweetCount: userTweets.length,
+            likes: userTweets.reduce((sum, tweet) => sum + (tweet.likes ?? 0), 0),
+            retweets: userTweets.reduce((sum, tweet) => sum + (tweet.retweets ?? 0), 0),
+            replies: userTweets.reduce((sum, tweet) => sum + (tweet.replies ?? 0), 0),
+            topTweet: top
+                ? {
+                      id: top.id,
+                      text: top.text,
+                      permanentUrl: top.permanentUrl,
+                      likes: top.likes ?? 0,
+                      retweets: top.retweets ?? 0,
+                  }
+                : null,
+            topHashtags: topHashtags(userTweets),
+            summary: "",
+        };
+    });
+}
+
+const summariesSchema = z.record(z.string());
+
+/**
+ * Asks the model for a one-line summary of each active user's tweets in a
+ * single request. Summaries are optional, so failures leave them empty.
+ */
+export async function summarizeUserActivity(
+    runtime: IAgentRuntime,
+    state: State,
+    activity: UserActivity[],
+    tweets: Tweet[]
+): Promise<UserActivity[]> {
+    const activeUsers = activity.filter((user) => user.tweetCount > 0);
+    if (!activeUsers.length) {
+        return activity;
+    }
+
+    try {
+        const userTweets = activeUsers
+            .map((user) => {
+                const texts = tweets
+                    .filter(
+                        (tweet) =>
+                            tweet.username?.toLowerCase() === user.username.toLowerCase()
+                    )
+                    .slice(0, MAX_SUMMARY_TWEETS_PER_USER)
+                    .map((tweet) => `- ${(tweet.text ?? "").replace(/\s+/g, " ")}`);
+                return [`@${user.username}:`, ...texts].join("\n");
+            })
+            .join("\n\n");
+
+        const context = composeContext({
+            state: { ...state, userTweets },
+            template: userActivitySummaryTemplate,
+        });
+        const response = await generateText({
+            runtime,
+            context,
+            modelClass: ModelClass.SMALL,
+        });
+
+        const json = response.slice(response.indexOf("{"), response.lastIndexOf("}") + 1);
+        const summaries = summariesSchema.parse(JSON.parse(json));
+        const byUsername = new Map(
+            Object.entries(summaries).map(([username, summary]) => [
+                username.replace(/^@/, "").toLowerCase(),
+                summary.replace(/\s+/g, " ").trim().slice(0, MAX_SUMMARY_LENGTH),
+            ])
+        );
+
+        return activity.map((user) => ({
+            ...user,
+            summary: byUsername.get(user.username.toLowerCase()) ?? user.summary,
+        }));
+    } catch (error) {
+        elizaLogger.warn("Failed to summarize per-user activity:", error);
+        return activity;
+    }
+}
+
+/**
+ * Renders the "Account Activity" report section, one line per user.
+ */
+export function formatUserActivitySection(activity: UserActivity[]): string {
+    const lines = activity.map((user) => {
+        if (!user.tweetCount) {
+            return `• @${user.username}: no tweets`;
+        }
+
+        const details = [
+            `${user.tweetCount} tweet${user.tweetCount === 1 ? "" : "s"}`,
+            `${user.likes} likes`,
+            `${user.retweets} RTs`,
+            ...user.topHashtags.map((tag) => `#${tag}`),
+        ].join(", ");
+        const summary = user.summary ? ` - ${user.summary}` : "";
+        const topTweet = user.topTweet ? ` ${user.topTweet.permanentUrl}` : "";
+
+        return `• @${user.username}: ${details}${summary}${topTweet}`;
+    });
+
+    return [ACCOUNT_ACTIVITY_HEADING, ...lines].join("\n");
+}
@@ -13,7 +13,8 @@ import {
 } from "@elizaos/core";
 import { stringToUuid } from "@elizaos/core";
 import type { ClientBase } from "./base";
-import { buildConversationThread, sendTweet, wait } from "./utils.ts";
+import { buildConversationThread, fetchMediaData, wait } from "./utils.ts";
+import { TweetPublisher } from "./publisher.ts";
 
 const twitterSearchTemplate =
     `{{timeline}}
@@ -47,10 +48,16 @@ export class TwitterSearchClient {
     runtime: IAgentRuntime;
     twitterUsername: string;
     private respondedTweets: Set<string> = new Set();
+    private publisher: TweetPublisher;
 
-    constructor(client: ClientBase, runtime: IAgentRuntime) {
+    constructor(
+        client: ClientBase,
+        runtime: IAgentRuntime,
+        publisher: TweetPublisher = new TweetPublisher(client, runtime)
+    ) {
         this.client = client;
         this.runtime = runtime;
+        this.publisher = publisher;
         this.twitterUsername = this.client.twitterConfig.TWITTER_USERNAME;
     }
 
@@ -278,14 +285,15 @@ export class TwitterSearchClient {
                 `Bot would respond to tweet ${selectedTweet.id} with: ${response.text}`
             );
             try {
+                // The publisher remembers the reply
                 const callback: HandlerCallback = async (response: Content) => {
-                    const memories = await sendTweet(
-                        this.client,
-                        response,
-                        message.roomId,
-                        this.twitterUsername,
-                        selectedTweet.id
-                    );
+                    const { memories } = await this.publisher.publish(response.text, {
+                        roomId: message.roomId,
+                        inReplyTo: selectedTweet.id,
+                        mediaData: response.attachments?.length
+                            ? await fetchMediaData(response.attachments)
+                            : undefined,
+                    });
                     return memories;
                 };
 
@@ -293,15 +301,6 @@ export class TwitterSearchClient {
 
                 state = await this.runtime.updateRecentMessageState(state);
 
-                for (const responseMessage of responseMessages) {
-                    await this.runtime.messageManager.createMemory(
-                        responseMessage,
-                        false
-                    );
-                }
-
-                state = await this.runtime.updateRecentMessageState(state);
-
                 await this.runtime.evaluate(message, state);
 
                 await this.runtime.processActions(
@@ -1,6 +1,5 @@
 import type { Tweet } from "agent-twitter-client";
 import { getEmbeddingZeroVector } from "@elizaos/core";
-import type { Content, Memory, UUID } from "@elizaos/core";
 import { stringToUuid } from "@elizaos/core";
 import type { ClientBase } from "./base";
 import { elizaLogger } from "@elizaos/core";
@@ -196,105 +195,7 @@ export async function fetchMediaData(
     );
 }
 
-export async function sendTweet(
-    client: ClientBase,
-    content: Content,
-    roomId: UUID,
-    twitterUsername: string,
-    inReplyTo: string
-): Promise<Memory[]> {
-    const maxTweetLength = client.twitterConfig.MAX_TWEET_LENGTH;
-    const isLongTweet = maxTweetLength > 280;
-
-    const tweetChunks = splitTweetContent(content.text, maxTweetLength);
-    const sentTweets: Tweet[] = [];
-    let previousTweetId = inReplyTo;
-
-    for (const chunk of tweetChunks) {
-        let mediaData = null;
-
-        if (content.attachments && content.attachments.length > 0) {
-            mediaData = await fetchMediaData(content.attachments);
-        }
-
-        const cleanChunk = deduplicateMentions(chunk.trim())
-
-        const result = await client.requestQueue.add(async () =>
-            isLongTweet
-                ? client.twitterClient.sendLongTweet(
-                      cleanChunk,
-                      previousTweetId,
-                      mediaData
-                  )
-                : client.twitterClient.sendTweet(
-                      cleanChunk,
-                      previousTweetId,
-                      mediaData
-                  )
-        );
-
-        const body = await result.json();
-        const tweetResult = isLongTweet
-            ? body?.data?.notetweet_create?.tweet_results?.result
-            : body?.data?.create_tweet?.tweet_results?.result;
-
-        // if we have a response
-        if (tweetResult) {
-            // Parse the response
-            const finalTweet: Tweet = {
-                id: tweetResult.rest_id,
-                text: tweetResult.legacy.full_text,
-                conversationId: tweetResult.legacy.conversation_id_str,
-                timestamp:
-                    new Date(tweetResult.legacy.created_at).getTime() / 1000,
-                userId: tweetResult.legacy.user_id_str,
-                inReplyToStatusId: tweetResult.legacy.in_reply_to_status_id_str,
-                permanentUrl: `https://twitter.com/${twitterUsername}/status/${tweetResult.rest_id}`,
-                hashtags: [],
-                mentions: [],
-                photos: [],
-                thread: [],
-                urls: [],
-                videos: [],
-            };
-            sentTweets.push(finalTweet);
-            previousTweetId = finalTweet.id;
-        } else {
-            elizaLogger.error("Error sending tweet chunk:", {
-                chunk,
-                response: body,
-            });
-        }
-
-        // Wait a bit between tweets to avoid rate limiting issues
-        await wait(1000, 2000);
-    }
-
-    const memories: Memory[] = sentTweets.map((tweet) => ({
-        id: stringToUuid(tweet.id + "-" + client.runtime.agentId),
-        agentId: client.runtime.agentId,
-        userId: client.runtime.agentId,
-        content: {
-            tweetId: tweet.id,
-            text: tweet.text,
-            source: "twitter",
-            url: tweet.permanentUrl,
-            imageUrls: tweet.photos.map((p) => p.url) || [],
-            inReplyTo: tweet.inReplyToStatusId
-                ? stringToUuid(
-                      tweet.inReplyToStatusId + "-" + client.runtime.agentId
-                  )
-                : undefined,
-        },
-        roomId,
-        embedding: getEmbeddingZeroVector(),
-        createdAt: tweet.timestamp * 1000, 
-    }));
-
-    return memories;
-}
-
-function splitTweetContent(content: string, maxLength: number): string[] {
+export function splitTweetContent(content: string, maxLength: number): string[] {
     const paragraphs = content.split("\n\n").map((p) => p.trim());
     const tweets: string[] = [];
     let currentTweet = "";
@@ -406,7 +307,7 @@ function splitSentencesAndWords(text: string, maxLength: number): string[] {
     return chunks;
 }
 
-function deduplicateMentions(paragraph: string) {
+export function deduplicateMentions(paragraph: string) {
     // Regex to match mentions at the beginning of the string
   const mentionRegex = /^@(\w+)(?:\s+@(\w+))*(\s+|$)/;
 
@@ -16,6 +16,7 @@ export default defineConfig({
         "http",
         "agentkeepalive",
         "@elizaos/core",
+        "@resvg/resvg-js", // Optional native addon, loaded at runtime
         // Add other modules you want to externalize
     ],
 });